@@ -2,9 +2,18 @@ import { NETWORK_NAME_TO_CHAIN_ID, NetworkName } from "./types/networks";
 import { IDbController } from "./types/db";
 import { Executor } from "./executor";
 import { Config } from "./common/config";
-import { BundlerRPCMethods, CustomRPCMethods } from "./constants";
 import { deepHexlify } from "./utils";
+import RpcError from "./types/api/errors/rpc-error";
+import * as RpcErrorCodes from "./types/api/errors/rpc-error-codes";
+import {
+  JsonRpcId,
+  JsonRpcRequest,
+  JsonRpcResponse,
+} from "./types/api/interfaces";
 import { FastifyInstance, RouteHandler } from "fastify";
+import { SocketStream } from "@fastify/websocket";
+import { SubscriptionRPCMethods } from "./constants";
+import { SubscribeParams, validateParams } from "./modules/schemas";
 import logger from "./logger";
 
 export interface RpcHandlerOptions {
@@ -20,6 +29,12 @@ export interface BundlerOptions {
   testingMode: boolean;
 }
 
+interface WebSocketContext {
+  // ids of the subscriptions created through this connection
+  subscriptions: Set<string>;
+  send: (payload: any) => void;
+}
+
 export class ApiApp {
   private server: FastifyInstance;
   private config: Config;
@@ -35,9 +50,16 @@ export class ApiApp {
     this.setupRoutes();
   }
 
+  /**
+   * Initializes the executors of every network, throws if one of them can't validate user ops
+   */
+  async init(): Promise<void> {
+    await Promise.all(this.executors.map((executor) => executor.init()));
+  }
+
   private setupRoutes(): void {
     if (this.testingMode) {
-      this.server.post("/rpc/", this.setupRouteFor("dev"));
+      this.setupRoutesFor("dev", "/rpc/");
       logger.info("Setup route for dev: /rpc/");
       return;
     }
@@ -48,12 +70,17 @@ export class ApiApp {
         continue;
       }
 
-      this.server.post(`/${chainId}`, this.setupRouteFor(network));
+      this.setupRoutesFor(network, `/${chainId}`);
       logger.info(`Setup route for ${network}:/${chainId}/`);
     }
   }
 
-  private setupRouteFor(network: NetworkName): RouteHandler {
+  /**
+   * Serves the same JSON-RPC methods over HTTP (POST) and WebSocket (GET upgrade)
+   * @param network
+   * @param path
+   */
+  private setupRoutesFor(network: NetworkName, path: string): void {
     const executor = new Executor({
       network,
       db: this.db,
@@ -62,79 +89,243 @@ export class ApiApp {
     });
     this.executors.push(executor);
 
+    this.server.post(path, this.setupRouteFor(executor));
+    this.server.get(
+      path,
+      { websocket: true },
+      this.setupWebSocketFor(executor)
+    );
+  }
+
+  private setupRouteFor(executor: Executor): RouteHandler {
     return async (req, res): Promise<void> => {
-      let result: any = undefined;
-      const { method, params, jsonrpc, id } = req.body as any;
-      switch (method) {
-        case BundlerRPCMethods.debug_bundler_setBundlingMode:
-          result = await executor.debug.setBundlingMode(params[0]);
-          break;
-        case BundlerRPCMethods.debug_bundler_setBundleInterval:
-          result = executor.debug.setbundlingInterval(params[0]);
-          break;
-        case BundlerRPCMethods.debug_bundler_clearState:
-          result = await executor.debug.clearState();
-          break;
-        case BundlerRPCMethods.debug_bundler_dumpMempool:
-          result = await executor.debug.dumpMempool();
-          break;
-        case BundlerRPCMethods.debug_bundler_setReputation:
-          result = await executor.debug.setReputation({
-            reputations: params[0],
-            entryPoint: params[1],
-          });
-          break;
-        case BundlerRPCMethods.debug_bundler_dumpReputation:
-          result = await executor.debug.dumpReputation();
-          break;
-        case BundlerRPCMethods.debug_bundler_sendBundleNow:
-          result = await executor.debug.sendBundleNow();
-          break;
+      const response = await this.handleRpcPayload(executor, req.body);
+      if (!response) {
+        return res.status(204).send();
       }
+      return res.status(200).send(response);
+    };
+  }
+
+  private setupWebSocketFor(
+    executor: Executor
+  ): (connection: SocketStream) => void {
+    return (connection): void => {
+      const socket = connection.socket;
+      const context: WebSocketContext = {
+        subscriptions: new Set(),
+        send: (payload): void => {
+          if (socket.readyState === socket.OPEN) {
+            socket.send(JSON.stringify(payload));
+          }
+        },
+      };
 
-      if (result === undefined) {
-        switch (method) {
-          case BundlerRPCMethods.eth_supportedEntryPoints:
-            result = await executor.eth.getSupportedEntryPoints();
-            break;
-          case BundlerRPCMethods.eth_chainId:
-            console.log(method);
-
-            result = await executor.eth.getChainId();
-            break;
-          case BundlerRPCMethods.eth_sendUserOperation:
-            result = await executor.eth.sendUserOperation({
-              userOp: params[0],
-              entryPoint: params[1],
-            });
-            break;
-          case CustomRPCMethods.eth_validateUserOperation:
-            result = await executor.eth.validateUserOp({
-              userOp: params[0],
-              entryPoint: params[1],
-            });
-            break;
-          case BundlerRPCMethods.eth_estimateUserOperationGas:
-            result = await executor.eth.estimateUserOperationGas({
-              userOp: params[0],
-              entryPoint: params[1],
-            });
-            break;
-          case BundlerRPCMethods.eth_getUserOperationByHash:
-            result = await executor.eth.getUserOperationByHash(params[0]);
-            break;
-          case BundlerRPCMethods.eth_getUserOperationReceipt:
-            result = await executor.eth.getUserOperationReceipt(params[0]);
-            break;
+      socket.on("message", async (message) => {
+        let body: unknown;
+        try {
+          body = JSON.parse(message.toString());
+        } catch (_) {
+          return context.send(
+            this.errorResponse(
+              null,
+              new RpcError("Parse error", RpcErrorCodes.PARSE_ERROR)
+            )
+          );
         }
+        const response = await this.handleRpcPayload(executor, body, context);
+        if (response) {
+          context.send(response);
+        }
+      });
+
+      socket.on("close", () => {
+        for (const id of context.subscriptions) {
+          executor.subscriptionService.unsubscribe(id);
+        }
+        context.subscriptions.clear();
+      });
+    };
+  }
+
+  /**
+   * Handles a JSON-RPC 2.0 payload, either a single request or a batch
+   * Returns null if nothing has to be sent back (notifications only)
+   * @param executor
+   * @param body
+   * @param socket set if the payload was received through a websocket
+   */
+  private async handleRpcPayload(
+    executor: Executor,
+    body: unknown,
+    socket?: WebSocketContext
+  ): Promise<JsonRpcResponse | JsonRpcResponse[] | null> {
+    if (!Array.isArray(body)) {
+      return await this.handleRpcRequest(executor, body, socket);
+    }
+
+    if (body.length === 0) {
+      return this.errorResponse(
+        null,
+        new RpcError("Empty batch", RpcErrorCodes.INVALID_REQUEST)
+      );
+    }
+    const responses = (
+      await Promise.all(
+        body.map((request) => this.handleRpcRequest(executor, request, socket))
+      )
+    ).filter((response): response is JsonRpcResponse => response != null);
+    // a batch made only of notifications must not get any response
+    if (!responses.length) {
+      return null;
+    }
+    return responses;
+  }
+
+  /**
+   * Handles a single JSON-RPC 2.0 request object (either standalone or as a member of a batch)
+   * Returns null for notifications (requests without id)
+   * @param executor
+   * @param request
+   * @param socket
+   */
+  private async handleRpcRequest(
+    executor: Executor,
+    request: unknown,
+    socket?: WebSocketContext
+  ): Promise<JsonRpcResponse | null> {
+    if (!this.isValidRequest(request)) {
+      return this.errorResponse(
+        this.getRequestId(request),
+        new RpcError("Invalid request", RpcErrorCodes.INVALID_REQUEST)
+      );
+    }
+    const { method, params, id } = request;
+    const isNotification = id === undefined;
+    try {
+      const result = deepHexlify(
+        await this.dispatch(executor, method, params ?? [], socket)
+      );
+      if (isNotification) {
+        return null;
       }
+      return { jsonrpc: "2.0", id, result };
+    } catch (err) {
+      if (isNotification) {
+        logger.error(err);
+        return null;
+      }
+      return this.errorResponse(id, err);
+    }
+  }
+
+  private async dispatch(
+    executor: Executor,
+    method: string,
+    params: any[],
+    socket?: WebSocketContext
+  ): Promise<any> {
+    // subscriptions are bound to a connection, so they are only served over websocket
+    if (socket) {
+      switch (method) {
+        case SubscriptionRPCMethods.eth_subscribe:
+          return this.subscribe(executor, params, socket);
+        case SubscriptionRPCMethods.eth_unsubscribe:
+          return this.unsubscribe(executor, params, socket);
+      }
+    }
+    return await executor.registry.dispatch(method, params);
+  }
+
+  private subscribe(
+    executor: Executor,
+    params: any[],
+    socket: WebSocketContext
+  ): string {
+    validateParams(SubscribeParams, params);
+    const id = executor.subscriptionService.subscribe(
+      params[0],
+      params[1] ?? {},
+      (subscription, result) =>
+        socket.send({
+          jsonrpc: "2.0",
+          method: "eth_subscription",
+          params: { subscription, result: deepHexlify(result) },
+        })
+    );
+    socket.subscriptions.add(id);
+    return id;
+  }
+
+  private unsubscribe(
+    executor: Executor,
+    params: any[],
+    socket: WebSocketContext
+  ): boolean {
+    validateParams(
+      [{ name: "subscription", schema: { type: "string" } }],
+      params
+    );
+    const id: string = params[0];
+    if (!socket.subscriptions.delete(id)) {
+      return false;
+    }
+    return executor.subscriptionService.unsubscribe(id);
+  }
 
-      result = deepHexlify(result);
-      return res.status(200).send({
-        jsonrpc,
+  private errorResponse(id: JsonRpcId, err: unknown): JsonRpcResponse {
+    if (err instanceof RpcError) {
+      return {
+        jsonrpc: "2.0",
         id,
-        result,
-      });
+        error: {
+          code: err.code ?? RpcErrorCodes.INTERNAL_ERROR,
+          message: err.message,
+          data: err.data,
+        },
+      };
+    }
+    logger.error(err);
+    return {
+      jsonrpc: "2.0",
+      id,
+      error: {
+        code: RpcErrorCodes.INTERNAL_ERROR,
+        message: "Internal error",
+      },
     };
   }
+
+  private isValidRequest(request: unknown): request is JsonRpcRequest {
+    if (!this.isObject(request)) {
+      return false;
+    }
+    const { jsonrpc, method, params, id } = request;
+    return (
+      jsonrpc === "2.0" &&
+      typeof method === "string" &&
+      (params == null || Array.isArray(params)) &&
+      (id === undefined || this.isValidId(id))
+    );
+  }
+
+  /**
+   * Id to answer an invalid request with, null if it has no valid id
+   * @param request
+   */
+  private getRequestId(request: unknown): JsonRpcId {
+    if (!this.isObject(request)) {
+      return null;
+    }
+    const { id } = request;
+    return this.isValidId(id) ? id : null;
+  }
+
+  private isObject(value: unknown): value is { [key: string]: unknown } {
+    return value != null && typeof value === "object" && !Array.isArray(value);
+  }
+
+  private isValidId(id: unknown): id is JsonRpcId {
+    return id === null || typeof id === "string" || typeof id === "number";
+  }
 }
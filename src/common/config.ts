@@ -2,22 +2,104 @@
 import { NetworkName } from "../types/networks";
 import { BigNumberish, Wallet, providers, utils } from "ethers";
 
+export type FeeMode = "eip1559" | "legacy";
+
+// backend tracing the validation, "auto" picks the best one supported by the node at startup
+export type TracerMode = "js" | "native" | "auto";
+
+export interface BeneficiarySweepPolicy {
+  // private key of the beneficiary
+  privateKey: string;
+  // balance always kept by the beneficiary
+  minBeneficiaryBalance: BigNumberish;
+  // relayers below this balance are topped up to it
+  targetRelayerBalance: BigNumberish;
+}
+
+// conditions firing a bundle in auto bundling mode, unset triggers are disabled
+export interface BundlingTriggers {
+  // amount of ops in the mempool
+  mempoolSize?: number;
+  // sum of the gas limits of the ops in the mempool
+  mempoolGas?: BigNumberish;
+  // age (in ms) of the oldest op in the mempool
+  maxOpAge?: number;
+  // bundles on every new block
+  onNewBlock?: boolean;
+}
+
 export interface NetworkConfig {
   entryPoints: string[];
   relayer: string;
+  // additional relayers (private keys or mnemonics), bundles are sent in parallel by all relayers
+  relayers?: string[];
+  // additional accounts derived from the `relayer` mnemonic (m/44'/60'/0'/0/{index})
+  relayerIndexes?: number[];
   beneficiary: string;
   name?: NetworkName;
   rpcEndpoint: string;
+  // websocket endpoint used to subscribe to new heads, blocks are polled if not set
+  wsRpcEndpoint?: string;
   minInclusionDenominator: number;
   throttlingSlack: number;
   banSlack: number;
+  // min stake (in wei) of a staked entity, the ERC-7562 MIN_STAKE_VALUE of the network
+  minStake: BigNumberish;
+  // min unstake delay (in seconds) of a staked entity, the ERC-7562 MIN_UNSTAKE_DELAY
+  minUnstakeDelay: number;
   minSignerBalance: BigNumberish;
   multicall: string;
+  // resubmit a pending bundle with bumped fees after this amount of blocks
+  resubmitAfterBlocks: number;
+  // fee increase (in percent) of a resubmitted bundle, nodes require at least 10
+  feeBumpPercent: number;
+  // a bundle still pending after this amount of blocks is cancelled
+  cancelAfterBlocks: number;
+  // ops of a mined bundle are put back into the mempool if its block is reorged out before this depth
+  confirmationDepth: number;
+  // max sum of the gas limits of the ops of a bundle, bounded by the block gas limit
+  maxBundleGas: BigNumberish;
+  // max amount of ops in a bundle
+  maxBundleSize: number;
+  // ops with a lower maxPriorityFeePerGas are rejected by eth_sendUserOperation
+  minPriorityFeePerGas: BigNumberish;
+  // max amount of ops in the mempool, the lowest paying ops are evicted by better ones
+  maxMempoolSize: number;
+  // ops not updated for this amount of ms are evicted from the mempool
+  mempoolTtl: number;
+  // interval (in ms) of the relayer balance checks
+  balanceCheckInterval: number;
+  // a warning is logged when a relayer balance drops below this amount
+  relayerWarningBalance: BigNumberish;
+  // moves the excess of the beneficiary balance back to the relayers
+  beneficiarySweep?: BeneficiarySweepPolicy;
+  bundlingTriggers: BundlingTriggers;
+  // interval (in ms) of new block polling, when new heads can't be subscribed to
+  blockPollingInterval: number;
+  // in block bundling mode, bundles are sent this amount of ms before the next expected block
+  bundleSubmissionOffset: number;
+  // overrides the fee mode of the network, legacy uses gasPrice instead of EIP-1559 fees
+  feeMode?: FeeMode;
+  // tracer of the validation: the javascript tracer, the native tracer of the node, or the best supported
+  tracer: TracerMode;
+  // name of the native tracer, its output must match the bundlerCollectorTracer
+  nativeTracer: string;
+  // validates user ops with simulateValidation only, for nodes without debug_traceCall
+  // skips the ERC-7562 opcode and storage rules, must not be used in production
+  unsafeMode: boolean;
+  // validation results are reused for this amount of ms, unless a block touches the contracts they reference
+  validationCacheTtl: number;
 }
 
 export type BundlerConfig = Omit<
   NetworkConfig,
-  "entryPoints" | "rpcEndpoint" | "relayer" | "beneficiary"
+  | "entryPoints"
+  | "rpcEndpoint"
+  | "wsRpcEndpoint"
+  | "relayer"
+  | "relayers"
+  | "relayerIndexes"
+  | "beneficiary"
 >;
 
 export type Networks = {
@@ -27,17 +109,22 @@ export type Networks = {
 export interface ConfigOptions {
   networks: Networks;
   testingMode?: boolean;
+  // exposes debug_bundler_* methods, should be turned off in production
+  enableDebugMethods?: boolean;
 }
 
 export class Config {
   supportedNetworks: NetworkName[];
   networks: Networks;
   testingMode: boolean;
+  enableDebugMethods: boolean;
 
   constructor(private config: ConfigOptions) {
     this.supportedNetworks = this.parseSupportedNetworks();
     this.networks = this.parseNetworkConfigs();
     this.testingMode = config.testingMode ?? true;
+    this.enableDebugMethods =
+      DEBUG_METHODS_ENV() ?? config.enableDebugMethods ?? true;
   }
 
   getNetworkProvider(network: NetworkName): providers.JsonRpcProvider | null {
@@ -50,8 +137,16 @@ export class Config {
   }
 
   getRelayer(network: NetworkName): Wallet | providers.JsonRpcSigner | null {
+    return this.getRelayers(network)[0] ?? null;
+  }
+
+  /**
+   * Returns all relayers of the network: `relayer`, `relayers` and the accounts derived at `relayerIndexes`
+   * @param network
+   */
+  getRelayers(network: NetworkName): Array<Wallet | providers.JsonRpcSigner> {
     const config = this.getNetworkConfig(network);
-    if (!config) return null;
+    if (!config) return [];
 
     // fetch from env variables first
     let privKey = RELAYER_ENV(network);
@@ -65,14 +160,26 @@ export class Config {
     }
 
     if (this.testingMode) {
-      return provider.getSigner();
+      return [provider.getSigner()];
     }
 
-    if (privKey.startsWith("0x")) {
-      return new Wallet(privKey, provider);
+    const relayers = [
+      privKey,
+      ...(RELAYERS_ENV(network) ?? config.relayers ?? []),
+    ].map((key) => this.toWallet(key).connect(provider));
+    for (const index of config.relayerIndexes ?? []) {
+      relayers.push(
+        Wallet.fromMnemonic(privKey, `m/44'/60'/0'/0/${index}`).connect(
+          provider
+        )
+      );
     }
-
-    return Wallet.fromMnemonic(privKey).connect(provider);
+    // the same key might be listed twice
+    return relayers.filter(
+      (relayer, index) =>
+        relayers.findIndex(({ address }) => address === relayer.address) ===
+        index
+    );
   }
 
   getBeneficiary(network: NetworkName): string | null {
@@ -92,6 +199,13 @@ export class Config {
     return config;
   }
 
+  private toWallet(privKey: string): Wallet {
+    if (privKey.startsWith("0x")) {
+      return new Wallet(privKey);
+    }
+    return Wallet.fromMnemonic(privKey);
+  }
+
   private parseSupportedNetworks(): NetworkName[] {
     const envNetworks = NETWORKS_ENV();
     if (envNetworks) {
@@ -126,12 +240,43 @@ export const bundlerDefaultConfigs: BundlerConfig = {
   minInclusionDenominator: 10,
   throttlingSlack: 10,
   banSlack: 10,
+  minStake: utils.parseEther("1"),
+  minUnstakeDelay: 86400,
   minSignerBalance: utils.parseEther("0.1"),
   multicall: "0xcA11bde05977b3631167028862bE2a173976CA11", // default multicall address
+  resubmitAfterBlocks: 5,
+  feeBumpPercent: 15,
+  cancelAfterBlocks: 50,
+  confirmationDepth: 10,
+  maxBundleGas: 5e6,
+  maxBundleSize: 10,
+  minPriorityFeePerGas: 0,
+  maxMempoolSize: 1000,
+  mempoolTtl: 30 * 60 * 1000,
+  balanceCheckInterval: 30 * 1000,
+  relayerWarningBalance: utils.parseEther("0.5"),
+  bundlingTriggers: {
+    mempoolSize: 2,
+    maxOpAge: 60 * 1000,
+  },
+  blockPollingInterval: 2 * 1000,
+  bundleSubmissionOffset: 3 * 1000,
+  tracer: "auto",
+  nativeTracer: "bundlerCollectorTracer",
+  unsafeMode: false,
+  validationCacheTtl: 60 * 1000,
 };
 
 const RELAYER_ENV = (network: NetworkName): string | undefined =>
   process.env[`${network.toUpperCase()}_RELAYER`];
+const RELAYERS_ENV = (network: NetworkName): string[] | undefined => {
+  const relayers = process.env[`${network.toUpperCase()}_RELAYERS`];
+  if (relayers) {
+    // mnemonics contain spaces, only trim the keys
+    return relayers.split(",").map((key) => key.trim());
+  }
+  return undefined;
+};
 const RPC_ENDPOINT_ENV = (network: NetworkName): string | undefined =>
   process.env[`${network.toUpperCase()}_RPC`];
 const BENEFICIARY_ENV = (network: NetworkName): string | undefined =>
@@ -143,6 +288,13 @@ const NETWORKS_ENV = (): string[] | undefined => {
   }
   return undefined;
 };
+const DEBUG_METHODS_ENV = (): boolean | undefined => {
+  const enabled = process.env["ENABLE_DEBUG_METHODS"];
+  if (enabled) {
+    return enabled.toLowerCase() === "true";
+  }
+  return undefined;
+};
 const ENTRYPOINTS_ENV = (network: NetworkName): string[] | undefined => {
   const entryPoints = process.env[`${network.toUpperCase()}_ENTRYPOINTS`];
   if (entryPoints) {
@@ -10,8 +10,28 @@ export const globalConfig = new Config({
       minInclusionDenominator: bundlerDefaultConfigs.minInclusionDenominator,
       throttlingSlack: bundlerDefaultConfigs.throttlingSlack,
       banSlack: bundlerDefaultConfigs.banSlack,
+      minStake: bundlerDefaultConfigs.minStake,
+      minUnstakeDelay: bundlerDefaultConfigs.minUnstakeDelay,
       minSignerBalance: bundlerDefaultConfigs.minSignerBalance,
       multicall: bundlerDefaultConfigs.multicall,
+      resubmitAfterBlocks: bundlerDefaultConfigs.resubmitAfterBlocks,
+      feeBumpPercent: bundlerDefaultConfigs.feeBumpPercent,
+      cancelAfterBlocks: bundlerDefaultConfigs.cancelAfterBlocks,
+      confirmationDepth: bundlerDefaultConfigs.confirmationDepth,
+      maxBundleGas: bundlerDefaultConfigs.maxBundleGas,
+      maxBundleSize: bundlerDefaultConfigs.maxBundleSize,
+      minPriorityFeePerGas: bundlerDefaultConfigs.minPriorityFeePerGas,
+      maxMempoolSize: bundlerDefaultConfigs.maxMempoolSize,
+      mempoolTtl: bundlerDefaultConfigs.mempoolTtl,
+      balanceCheckInterval: bundlerDefaultConfigs.balanceCheckInterval,
+      relayerWarningBalance: bundlerDefaultConfigs.relayerWarningBalance,
+      bundlingTriggers: bundlerDefaultConfigs.bundlingTriggers,
+      blockPollingInterval: bundlerDefaultConfigs.blockPollingInterval,
+      bundleSubmissionOffset: bundlerDefaultConfigs.bundleSubmissionOffset,
+      tracer: bundlerDefaultConfigs.tracer,
+      nativeTracer: bundlerDefaultConfigs.nativeTracer,
+      unsafeMode: bundlerDefaultConfigs.unsafeMode,
+      validationCacheTtl: bundlerDefaultConfigs.validationCacheTtl,
     },
     sepolia: {
       entryPoints: ["0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789"],
@@ -22,9 +42,30 @@ export const globalConfig = new Config({
       minInclusionDenominator: bundlerDefaultConfigs.minInclusionDenominator,
       throttlingSlack: bundlerDefaultConfigs.throttlingSlack,
       banSlack: bundlerDefaultConfigs.banSlack,
+      minStake: bundlerDefaultConfigs.minStake,
+      minUnstakeDelay: bundlerDefaultConfigs.minUnstakeDelay,
       minSignerBalance: bundlerDefaultConfigs.minSignerBalance,
       multicall: bundlerDefaultConfigs.multicall,
+      resubmitAfterBlocks: bundlerDefaultConfigs.resubmitAfterBlocks,
+      feeBumpPercent: bundlerDefaultConfigs.feeBumpPercent,
+      cancelAfterBlocks: bundlerDefaultConfigs.cancelAfterBlocks,
+      confirmationDepth: bundlerDefaultConfigs.confirmationDepth,
+      maxBundleGas: bundlerDefaultConfigs.maxBundleGas,
+      maxBundleSize: bundlerDefaultConfigs.maxBundleSize,
+      minPriorityFeePerGas: bundlerDefaultConfigs.minPriorityFeePerGas,
+      maxMempoolSize: bundlerDefaultConfigs.maxMempoolSize,
+      mempoolTtl: bundlerDefaultConfigs.mempoolTtl,
+      balanceCheckInterval: bundlerDefaultConfigs.balanceCheckInterval,
+      relayerWarningBalance: bundlerDefaultConfigs.relayerWarningBalance,
+      bundlingTriggers: bundlerDefaultConfigs.bundlingTriggers,
+      blockPollingInterval: bundlerDefaultConfigs.blockPollingInterval,
+      bundleSubmissionOffset: bundlerDefaultConfigs.bundleSubmissionOffset,
+      tracer: bundlerDefaultConfigs.tracer,
+      nativeTracer: bundlerDefaultConfigs.nativeTracer,
+      unsafeMode: bundlerDefaultConfigs.unsafeMode,
+      validationCacheTtl: bundlerDefaultConfigs.validationCacheTtl,
     },
   },
   testingMode: true,
+  enableDebugMethods: true,
 });
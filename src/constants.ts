@@ -1,5 +1,12 @@
 export const CustomRPCMethods = {
   eth_validateUserOperation: "eth_validateUserOperation",
+  eth_getUserOperationStatus: "eth_getUserOperationStatus",
+  eth_getBundlerStatus: "eth_getBundlerStatus",
+};
+
+export const SubscriptionRPCMethods = {
+  eth_subscribe: "eth_subscribe",
+  eth_unsubscribe: "eth_unsubscribe",
 };
 
 export const BundlerRPCMethods = {
@@ -16,4 +23,7 @@ export const BundlerRPCMethods = {
   debug_bundler_setBundlingMode: "debug_bundler_setBundlingMode",
   debug_bundler_setBundleInterval: "debug_bundler_setBundleInterval",
   debug_bundler_sendBundleNow: "debug_bundler_sendBundleNow",
+  debug_bundler_getRelayerBalances: "debug_bundler_getRelayerBalances",
+  debug_bundler_setBundlingTriggers: "debug_bundler_setBundlingTriggers",
+  debug_bundler_getBundlingTriggers: "debug_bundler_getBundlingTriggers",
 };
@@ -5,11 +5,18 @@ function tracer() {
       "0xffffffffffffffffffffffffffffffffffffffff": {
         storage: {},
         number: 0,
-        violation: {},
       },
     },
     prevOp: { op: "", data: "" },
     calls: [],
+    // storage accesses, by phase, contract and slot
+    accesses: {},
+    // restricted opcodes, by phase, contract and opcode
+    opcodes: {},
+    // EXTCODE* and CALL* to addresses without code, by phase, contract and target
+    codelessAccesses: {},
+    // contracts running out of gas, by phase and contract
+    outOfGas: {},
     numberCounter: 0,
 
     fault: function fault(log, db) {},
@@ -18,13 +25,30 @@ function tracer() {
       return {
         trace: this.output,
         calls: this.calls,
+        storageAccesses: this.values(this.accesses),
+        opcodes: this.values(this.opcodes),
+        codelessAccesses: this.values(this.codelessAccesses),
+        outOfGas: this.values(this.outOfGas),
       };
     },
 
+    values: function (map) {
+      var list = [];
+      for (var key in map) {
+        list.push(map[key]);
+      }
+      return list;
+    },
+
     step: function step(log, db) {
       var opcode = log.op.toString();
+      var current = this.addrs[log.getDepth() - 1];
 
-      if (log.getGas() < log.getCost()) {
+      if (log.getDepth() > 1 && log.getGas() < log.getCost()) {
+        this.outOfGas[this.numberCounter + ":" + current] = {
+          phase: this.numberCounter,
+          address: current,
+        };
       }
 
       if (this.prevOp.op == "KECCAK256") {
@@ -39,26 +63,35 @@ function tracer() {
         var idx = opcode.startsWith("EXT") ? 0 : 1;
         var addr = toAddress(log.stack.peek(idx).toString(16));
         var hex = toHex(addr);
+        var codeSize = db.getCode(addr).length;
         if (this.output[hex] && this.output[hex].contractSize == null) {
-          this.output[hex].contractSize = db.getCode(addr).length;
+          this.output[hex].contractSize = codeSize;
+        }
+        if (log.getDepth() > 1 && opcode != "CREATE2" && codeSize == 0) {
+          this.codelessAccesses[
+            this.numberCounter + ":" + current + ":" + hex
+          ] = {
+            phase: this.numberCounter,
+            address: current,
+            target: hex,
+            opcode: opcode,
+          };
         }
       }
 
-      if (log.getDepth() > 1) {
-        if (this.prevOp.op === "GAS" && !opcode.includes("CALL")) {
-          const to = this.addrs[log.getDepth() - 1];
-          if (!this.output[to].violation) {
-            this.output[to].violation = {};
-          }
-          this.output[to].violation["GAS"] = true;
-        }
+      if (
+        log.getDepth() > 1 &&
+        this.prevOp.op === "GAS" &&
+        opcode.match(/^(CALL|CALLCODE|DELEGATECALL|STATICCALL)$/) == null
+      ) {
+        this.pOpcode(log, "GAS");
       }
 
       this.prevOp.op = opcode;
       switch (opcode) {
         case "SLOAD":
         case "SSTORE":
-          this.pSloadStore(log);
+          this.pSloadStore(log, opcode == "SSTORE");
           break;
         case "REVERT":
         case "RETURN":
@@ -82,6 +115,9 @@ function tracer() {
             this.numberCounter += 1;
             break;
           }
+        case "INVALID":
+        case "BLOBHASH":
+        case "BLOBBASEFEE":
         case "GASPRICE":
         case "GASLIMIT":
         case "DIFFICULTY":
@@ -97,20 +133,36 @@ function tracer() {
         case "RANDOM":
         case "PREVRANDAO":
         case "CREATE":
-        case "CREATE2": {
-          const to = this.addrs[log.getDepth() - 1];
-          if (!this.output[to].violation[opcode]) {
-            this.output[to].violation[opcode] = 0;
-          }
-          this.output[to].violation[opcode] += 1;
+        case "CREATE2":
+          this.pOpcode(log, opcode);
           break;
-        }
         default:
+          // geth names unassigned opcodes "opcode 0x.. not defined"
+          if (opcode.startsWith("opcode ")) {
+            this.pOpcode(log, opcode);
+          }
           break;
       }
     },
 
-    pSloadStore: function (log) {
+    pOpcode: function (log, opcode) {
+      if (log.getDepth() == 1) {
+        return;
+      }
+      var to = this.addrs[log.getDepth() - 1];
+      var key = this.numberCounter + ":" + to + ":" + opcode;
+      if (!this.opcodes[key]) {
+        this.opcodes[key] = {
+          phase: this.numberCounter,
+          address: to,
+          opcode: opcode,
+          count: 0,
+        };
+      }
+      this.opcodes[key].count += 1;
+    },
+
+    pSloadStore: function (log, write) {
       var key = log.stack.peek(0).toString(16);
       const addr = log.contract.getAddress();
       const to = toHex(addr);
@@ -118,6 +170,19 @@ function tracer() {
         this.output[to].storage[key] = 0;
       }
       this.output[to].storage[key] += 1;
+
+      var accessKey = this.numberCounter + ":" + to + ":" + key;
+      if (!this.accesses[accessKey]) {
+        this.accesses[accessKey] = {
+          phase: this.numberCounter,
+          address: to,
+          slot: key,
+          write: false,
+        };
+      }
+      if (write) {
+        this.accesses[accessKey].write = true;
+      }
     },
 
     pKeccak: function (log) {
@@ -139,13 +204,16 @@ function tracer() {
 
     enter: function enter(frame) {
       var to = toHex(frame.getTo());
+      // undefined for calls without value, such as STATICCALL
+      var value = frame.getValue();
       this.calls.push({
         type: frame.getType(),
         from: toHex(frame.getFrom()),
         to: to,
         method: toHex(frame.getInput()).slice(0, 10),
         gas: frame.getGas(),
-        value: frame.getValue(),
+        value: value ? "0x" + value.toString(16) : "0x0",
+        phase: this.numberCounter,
       });
       this.addrs.push(to);
       this.initStorage(to);
@@ -165,7 +233,6 @@ function tracer() {
         this.output[to] = {
           storage: {},
           number: this.numberCounter,
-          violation: {},
         };
       }
     },
@@ -2,12 +2,20 @@ import { BigNumber, providers } from "ethers";
 import { NETWORK_NAME_TO_CHAIN_ID, NetworkName } from "./types/networks";
 import { IDbController } from "./types/db";
 import { NetworkConfig, Config } from "./common/config";
-import { Debug, Eth } from "./modules/index";
+import { Debug, Eth, RpcMethodRegistry } from "./modules/index";
 import {
   MempoolService,
   ReputationService,
   UserOpValidationService,
   BundlingService,
+  SubscriptionService,
+  BundleTrackerService,
+  IFeeOracle,
+  createFeeOracle,
+  RelayerService,
+  BalanceWatchdogService,
+  BlockWatcherService,
+  ValidationCacheService,
 } from "./services/index";
 import { Logger } from "./models/ExecutorInterface";
 
@@ -28,11 +36,19 @@ export class Executor {
 
   public debug: Debug;
   public eth: Eth;
+  public registry: RpcMethodRegistry;
 
   public bundlingService: BundlingService;
   public mempoolService: MempoolService;
   public reputationService: ReputationService;
   public userOpValidationService: UserOpValidationService;
+  public subscriptionService: SubscriptionService;
+  public bundleTrackerService: BundleTrackerService;
+  public feeOracle: IFeeOracle;
+  public relayerService: RelayerService;
+  public balanceWatchdogService: BalanceWatchdogService;
+  public blockWatcherService: BlockWatcherService;
+  public validationCacheService: ValidationCacheService;
 
   private db: IDbController;
 
@@ -49,25 +65,83 @@ export class Executor {
       this.network
     ) as providers.JsonRpcProvider;
     const chainId = Number(NETWORK_NAME_TO_CHAIN_ID[this.network]);
+    this.subscriptionService = new SubscriptionService(this.logger);
     this.reputationService = new ReputationService(
       this.db,
       chainId,
       this.networkConfig.minInclusionDenominator,
       this.networkConfig.throttlingSlack,
       this.networkConfig.banSlack,
-      BigNumber.from(1),
-      0
+      BigNumber.from(this.networkConfig.minStake),
+      this.networkConfig.minUnstakeDelay
     );
+    this.blockWatcherService = new BlockWatcherService(
+      this.network,
+      this.provider,
+      this.config,
+      this.logger
+    );
+
+    this.validationCacheService = new ValidationCacheService(
+      this.network,
+      this.provider,
+      this.blockWatcherService,
+      this.config,
+      this.logger
+    );
+
     this.userOpValidationService = new UserOpValidationService(
       this.provider,
       this.reputationService,
-      this.network
+      this.validationCacheService,
+      this.network,
+      this.config
     );
 
     this.mempoolService = new MempoolService(
       this.db,
       chainId,
-      this.reputationService
+      this.network,
+      this.reputationService,
+      this.config,
+      this.logger
+    );
+
+    this.feeOracle = createFeeOracle(
+      this.network,
+      this.provider,
+      this.networkConfig
+    );
+
+    this.relayerService = new RelayerService(
+      this.network,
+      this.provider,
+      this.config,
+      this.logger
+    );
+
+    this.balanceWatchdogService = new BalanceWatchdogService(
+      this.network,
+      this.provider,
+      this.relayerService,
+      this.feeOracle,
+      this.config,
+      this.logger
+    );
+
+    this.bundleTrackerService = new BundleTrackerService(
+      this.db,
+      chainId,
+      this.network,
+      this.provider,
+      this.mempoolService,
+      this.userOpValidationService,
+      this.reputationService,
+      this.subscriptionService,
+      this.feeOracle,
+      this.relayerService,
+      this.config,
+      this.logger
     );
 
     this.bundlingService = new BundlingService(
@@ -76,6 +150,12 @@ export class Executor {
       this.mempoolService,
       this.userOpValidationService,
       this.reputationService,
+      this.subscriptionService,
+      this.bundleTrackerService,
+      this.relayerService,
+      this.balanceWatchdogService,
+      this.blockWatcherService,
+      this.feeOracle,
       this.config,
       this.logger
     );
@@ -84,15 +164,63 @@ export class Executor {
       this.provider,
       this.bundlingService,
       this.mempoolService,
-      this.reputationService
+      this.reputationService,
+      this.balanceWatchdogService
     );
 
     this.eth = new Eth(
       this.provider,
       this.userOpValidationService,
       this.mempoolService,
+      this.bundleTrackerService,
+      this.subscriptionService,
       this.networkConfig,
       this.logger
     );
+
+    this.registry = new RpcMethodRegistry({
+      testingMode: this.config.testingMode,
+      disabledNamespaces: this.config.enableDebugMethods
+        ? []
+        : ["debug_bundler"],
+    });
+    this.eth.registerMethods(this.registry);
+    this.debug.registerMethods(this.registry);
+  }
+
+  /**
+   * Checks the tracers supported by the node, throws if the validation can't be traced
+   * Then starts the background jobs of the services
+   */
+  async init(): Promise<void> {
+    const backend = await this.userOpValidationService.init();
+    if (!backend) {
+      this.logger.warn(
+        `UNSAFE MODE on ${this.network}: user ops are only checked with simulateValidation, ` +
+          "the ERC-7562 opcode and storage rules are not enforced"
+      );
+    } else {
+      this.logger.info(`Tracing validation on ${this.network} with ${backend}`);
+    }
+    this.start();
+  }
+
+  /**
+   * Starts the timers and block subscriptions of the services
+   */
+  start(): void {
+    this.mempoolService.start();
+    this.validationCacheService.start();
+    this.balanceWatchdogService.start();
+    this.bundleTrackerService.start();
+    this.bundlingService.start();
+  }
+
+  stop(): void {
+    this.bundlingService.stop();
+    this.bundleTrackerService.stop();
+    this.balanceWatchdogService.stop();
+    this.validationCacheService.stop();
+    this.mempoolService.stop();
   }
 }
@@ -7,7 +7,13 @@ export interface IMempoolEntry {
   entryPoint: string;
   prefund: BigNumberish;
   aggregator?: string;
-  hash?: string;
+  // hash of the code of the contracts referenced during validation
+  referencedContractsHash?: string;
+  userOpHash?: string;
+  // timestamp (in seconds) after which the op is invalid, 0 if it doesn't expire
+  validUntil?: number;
+  // hash of the bundle transaction, set while the op waits for confirmations
+  submittedIn?: string;
 }
 
 export interface MempoolEntrySerialized {
@@ -25,9 +31,23 @@ export interface MempoolEntrySerialized {
     paymasterAndData: BytesLike;
     signature: BytesLike;
   };
+  entryPoint: string;
   prefund: string;
   aggregator: string | undefined;
-  hash: string | undefined;
+  referencedContractsHash: string | undefined;
+  userOpHash: string | undefined;
+  validUntil: number | undefined;
+  submittedIn: string | undefined;
+}
+
+export type MempoolEvictionReason = "ttl" | "validUntil" | "capacity";
+
+export interface MempoolEviction {
+  userOpHash: string | undefined;
+  sender: string;
+  nonce: string;
+  reason: MempoolEvictionReason;
+  evictedAt: number;
 }
 
 export interface IReputationEntry {
@@ -53,3 +73,43 @@ export enum ReputationStatus {
   THROTTLED = "throttled",
   BANNED = "banned",
 }
+
+export enum BundleStatus {
+  PENDING = "pending",
+  MINED = "mined",
+  REVERTED = "reverted",
+  DROPPED = "dropped",
+  // replaced by a fee-bumped transaction with the same nonce
+  REPLACED = "replaced",
+  // replaced by a zero-value self transfer, because some ops became invalid
+  CANCELLED = "cancelled",
+}
+
+export interface IBundleEntry {
+  chainId: number;
+  transactionHash: string;
+  entryPoint: string;
+  signer: string;
+  nonce: number;
+  status: BundleStatus;
+  entries: MempoolEntrySerialized[];
+  userOpHashes: string[];
+  // handleOps transaction, needed to resubmit it
+  to: string;
+  data: string;
+  gasLimit: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  gasPrice?: string;
+  submittedAt: number;
+  submittedBlock: number;
+  lastSubmittedBlock: number;
+  // previous transactions of the bundle, replaced by this one
+  replacedTransactions: string[];
+  replacedBy?: string;
+  // zero-value self transfers sent to cancel the bundle, latest last
+  // the bundle stays pending until one of them or a bundle transaction is mined
+  cancelTransactions?: string[];
+  blockNumber?: number;
+  blockHash?: string;
+}
@@ -19,6 +19,42 @@ export interface Log {
 export interface TracerResult {
   trace: TracerTracer;
   calls: TracerCall[];
+  storageAccesses?: TracerStorageAccess[];
+  opcodes?: TracerOpcode[];
+  codelessAccesses?: TracerCodelessAccess[];
+  outOfGas?: TracerOutOfGas[];
+}
+
+// a storage slot of a contract read or written during a validation phase
+export interface TracerStorageAccess {
+  // 0: factory, 1: account, 2: paymaster
+  phase: number;
+  address: string;
+  // hex, without 0x prefix
+  slot: string;
+  write: boolean;
+}
+
+// a restricted opcode used by a contract during a validation phase
+export interface TracerOpcode {
+  phase: number;
+  address: string;
+  // "GAS" is only reported when not followed by a CALL
+  opcode: string;
+  count: number;
+}
+
+// an EXTCODE* or CALL* opcode targeting an address without code
+export interface TracerCodelessAccess {
+  phase: number;
+  address: string;
+  target: string;
+  opcode: string;
+}
+
+export interface TracerOutOfGas {
+  phase: number;
+  address: string;
 }
 
 export interface TracerTracer {
@@ -32,10 +68,6 @@ export interface TracerTracer {
     keccak?: {
       [slot: string]: any;
     };
-    violation?: {
-      [opcode: string]: boolean;
-    };
-    value?: number;
   };
 }
 
@@ -49,6 +81,34 @@ export interface TracerCall {
   return?: any;
   revert?: any;
   value?: BigNumberish;
+  // validation phase the call was made in
+  phase?: number;
+}
+
+// output of the native bundlerCollectorTracer, one level per call of the entry point
+export interface BundlerCollectorResult {
+  callsFromEntryPoint: BundlerCollectorLevel[];
+  // preimages of the KECCAK256 computed during the validation
+  keccak: string[];
+  calls: TracerCall[];
+}
+
+export interface BundlerCollectorLevel {
+  topLevelMethodSig: string;
+  topLevelTargetAddress: string;
+  opcodes: {
+    [opcode: string]: number;
+  };
+  access: {
+    [address: string]: {
+      reads: { [slot: string]: string };
+      writes: { [slot: string]: number };
+    };
+  };
+  contractSize: {
+    [address: string]: { opcode: string; contractSize: number };
+  };
+  oog?: boolean;
 }
 
 export interface TracerPrestateResponse {
@@ -62,11 +122,21 @@ export interface TracerPrestateResponse {
   };
 }
 
+// prestateTracer output of a block transaction in diff mode, accounts changed by the transaction
+export interface TracerStateDiff {
+  txHash?: string;
+  result: {
+    pre: { [address: string]: Partial<TracerPrestateResponse[string]> };
+    post: { [address: string]: Partial<TracerPrestateResponse[string]> };
+  };
+}
+
 export type SupportedEntryPoints = string[];
 
 export type EthChainIdResponse = { chainId: number };
 
-export type BundlingMode = "auto" | "manual";
+// block: bundles once per block, shortly before the next block is expected
+export type BundlingMode = "auto" | "manual" | "block";
 
 export interface LogFn {
   // TODO: why is this different from `obj: object` or `obj: any`?
@@ -3,6 +3,7 @@ import { hexValue, hexZeroPad } from "ethers/lib/utils";
 import * as RpcErrorCodes from "../types/api/errors/rpc-error-codes";
 import RpcError from "../types/api/errors/rpc-error";
 import { UserOperationStruct } from "../types/executor/contracts/EntryPoint";
+import { getUserOpGasPrice } from "../utils";
 import { IMempoolEntry, MempoolEntrySerialized } from "./EntitiesInterface";
 
 export class MempoolEntry implements IMempoolEntry {
@@ -12,7 +13,10 @@ export class MempoolEntry implements IMempoolEntry {
   prefund: BigNumberish;
   aggregator?: string;
   lastUpdatedTime: number;
-  hash?: string;
+  referencedContractsHash?: string;
+  userOpHash?: string;
+  validUntil?: number;
+  submittedIn?: string;
 
   constructor({
     chainId,
@@ -20,14 +24,20 @@ export class MempoolEntry implements IMempoolEntry {
     entryPoint,
     prefund,
     aggregator,
-    hash,
+    referencedContractsHash,
+    userOpHash,
+    validUntil,
+    submittedIn,
   }: {
     chainId: number;
     userOp: UserOperationStruct;
     entryPoint: string;
     prefund: BigNumberish;
     aggregator?: string | undefined;
-    hash?: string | undefined;
+    referencedContractsHash?: string | undefined;
+    userOpHash?: string | undefined;
+    validUntil?: number | undefined;
+    submittedIn?: string | undefined;
   }) {
     this.chainId = chainId;
     this.userOp = userOp;
@@ -36,8 +46,17 @@ export class MempoolEntry implements IMempoolEntry {
     if (aggregator) {
       this.aggregator = aggregator;
     }
-    if (hash) {
-      this.hash = hash;
+    if (referencedContractsHash) {
+      this.referencedContractsHash = referencedContractsHash;
+    }
+    if (userOpHash) {
+      this.userOpHash = userOpHash;
+    }
+    if (validUntil) {
+      this.validUntil = validUntil;
+    }
+    if (submittedIn) {
+      this.submittedIn = submittedIn;
     }
     this.lastUpdatedTime = new Date().getTime();
     // this.validateAndTransformUserOp();
@@ -75,7 +94,7 @@ export class MempoolEntry implements IMempoolEntry {
     return (
       entry.chainId === this.chainId &&
       BigNumber.from(entry.userOp.nonce).eq(this.userOp.nonce) &&
-      entry.userOp.sender === this.userOp.sender
+      entry.userOp.sender.toLowerCase() === this.userOp.sender.toLowerCase()
     );
   }
 
@@ -112,18 +131,45 @@ export class MempoolEntry implements IMempoolEntry {
         paymasterAndData: this.userOp.paymasterAndData,
         signature: this.userOp.signature,
       },
+      entryPoint: this.entryPoint,
       prefund: hexValue(BigNumber.from(this.prefund)),
       aggregator: this.aggregator,
-      hash: this.hash,
+      referencedContractsHash: this.referencedContractsHash,
+      userOpHash: this.userOpHash,
+      validUntil: this.validUntil,
+      submittedIn: this.submittedIn,
     };
   }
+
+  /**
+   * Gas price paid by the op at the given base fee: min(maxFeePerGas, baseFee + maxPriorityFeePerGas)
+   * @param baseFee
+   */
+  getEffectiveGasPrice(baseFee: BigNumberish): BigNumber {
+    return getUserOpGasPrice(this.userOp, baseFee);
+  }
+
+  /**
+   * Orders entries by decreasing effective gas price at the given base fee
+   * @param baseFee
+   */
+  static compareByEffectiveGasPrice(
+    baseFee: BigNumberish
+  ): (a: MempoolEntry, b: MempoolEntry) => number {
+    return (a, b) => {
+      const aPrice = a.getEffectiveGasPrice(baseFee);
+      const bPrice = b.getEffectiveGasPrice(baseFee);
+      return bPrice.gt(aPrice) ? 1 : bPrice.lt(aPrice) ? -1 : 0;
+    };
+  }
+
   static compareByCost(a: MempoolEntry, b: MempoolEntry): number {
-    const {
-      userOp: { maxPriorityFeePerGas: aFee },
-    } = a;
-    const {
-      userOp: { maxPriorityFeePerGas: bFee },
-    } = b;
-    return ethers.BigNumber.from(bFee).sub(aFee).toNumber();
+    return MempoolEntry.compareByEffectiveGasPrice(0)(a, b);
+  }
+
+  static compareByNonce(a: MempoolEntry, b: MempoolEntry): number {
+    const aNonce = ethers.BigNumber.from(a.userOp.nonce);
+    const bNonce = ethers.BigNumber.from(b.userOp.nonce);
+    return aNonce.lt(bNonce) ? -1 : aNonce.gt(bNonce) ? 1 : 0;
   }
 }
@@ -1,13 +1,24 @@
 import { providers } from "ethers";
+import { hexValue } from "ethers/lib/utils";
 import RpcError from "../types/api/errors/rpc-error";
 import * as RpcErrorCodes from "../types/api/errors/rpc-error-codes";
 import { UserOperationStruct } from "../types/executor/contracts/EntryPoint";
 import { BundlingService } from "../services/BundlingService";
 import { MempoolService } from "../services/MempoolService";
 import { ReputationService } from "../services/ReputationService";
+import { BalanceWatchdogService } from "../services/BalanceWatchdogService";
 import { BundlingMode } from "../models/ExecutorInterface";
+import { BundlingTriggers } from "../common/config";
 import { ReputationEntryDump } from "../models/EntitiesInterface";
+import { BundlerRPCMethods } from "../constants";
+import { MempoolDump, RelayerBalancesDump } from "../types/api/interfaces";
 import { SetReputationArgs } from "./interfaces";
+import { RpcMethodRegistry } from "./registry";
+import {
+  BundlingTriggersSchema,
+  EntryPointParam,
+  SetReputationSchema,
+} from "./schemas";
 
 export class Debug {
   bundlingMode: BundlingMode = "auto";
@@ -15,11 +26,12 @@ export class Debug {
     private provider: providers.JsonRpcProvider,
     private bundlingService: BundlingService,
     private mempoolService: MempoolService,
-    private reputationService: ReputationService
+    private reputationService: ReputationService,
+    private balanceWatchdogService: BalanceWatchdogService
   ) {}
 
   async setBundlingMode(mode: BundlingMode): Promise<string> {
-    if (mode !== "auto" && mode !== "manual") {
+    if (mode !== "auto" && mode !== "manual" && mode !== "block") {
       throw new RpcError("Method not supported", RpcErrorCodes.INVALID_REQUEST);
     }
     this.bundlingService.setBundlingMode(mode);
@@ -32,9 +44,20 @@ export class Debug {
     return "ok";
   }
 
-  async dumpMempool(): Promise<UserOperationStruct[]> {
-    const entries = await this.mempoolService.dump();
-    return entries.map((entry) => entry.userOp);
+  /**
+   * Returns the user ops of the mempool
+   * @param includeEvicted also returns the latest evicted ops, the response is then a MempoolDump
+   */
+  async dumpMempool(
+    includeEvicted?: boolean
+  ): Promise<UserOperationStruct[] | MempoolDump> {
+    const entries = (await this.mempoolService.dump()).map(
+      (entry) => entry.userOp
+    );
+    if (!includeEvicted) {
+      return entries;
+    }
+    return { entries, evicted: this.mempoolService.getEvictions() };
   }
 
   async sendBundleNow(): Promise<string> {
@@ -61,4 +84,98 @@ export class Debug {
   async dumpReputation(): Promise<ReputationEntryDump[]> {
     return await this.reputationService.dump();
   }
+
+  setBundlingTriggers(triggers: BundlingTriggers): string {
+    this.bundlingService.setBundlingTriggers(triggers);
+    return "ok";
+  }
+
+  getBundlingTriggers(): BundlingTriggers {
+    return this.bundlingService.getBundlingTriggers();
+  }
+
+  async getRelayerBalances(): Promise<RelayerBalancesDump> {
+    const status = await this.balanceWatchdogService.getStatus();
+    return {
+      paused: status.paused,
+      requiredBalance: hexValue(status.requiredBalance),
+      lastCheck: status.lastCheck,
+      relayers: status.relayers.map((relayer) => ({
+        ...relayer,
+        balance: hexValue(relayer.balance),
+      })),
+    };
+  }
+
+  registerMethods(registry: RpcMethodRegistry): void {
+    registry.register({
+      method: BundlerRPCMethods.debug_bundler_setBundlingMode,
+      namespace: "debug_bundler",
+      params: [
+        {
+          name: "mode",
+          schema: { type: "string", enum: ["auto", "manual", "block"] },
+        },
+      ],
+      handler: (params) => this.setBundlingMode(params[0]),
+    });
+    registry.register({
+      method: BundlerRPCMethods.debug_bundler_setBundleInterval,
+      namespace: "debug_bundler",
+      params: [{ name: "interval", schema: { type: "number", min: 0 } }],
+      handler: (params) => this.setbundlingInterval(params[0]),
+    });
+    registry.register({
+      method: BundlerRPCMethods.debug_bundler_clearState,
+      namespace: "debug_bundler",
+      testingOnly: true,
+      handler: () => this.clearState(),
+    });
+    registry.register({
+      method: BundlerRPCMethods.debug_bundler_dumpMempool,
+      namespace: "debug_bundler",
+      params: [
+        { name: "entryPoint", schema: { type: "address", optional: true } },
+        { name: "includeEvicted", schema: { type: "boolean", optional: true } },
+      ],
+      handler: (params) => this.dumpMempool(params[1]),
+    });
+    registry.register({
+      method: BundlerRPCMethods.debug_bundler_setReputation,
+      namespace: "debug_bundler",
+      testingOnly: true,
+      params: [
+        { name: "reputations", schema: SetReputationSchema },
+        EntryPointParam,
+      ],
+      handler: (params) =>
+        this.setReputation({ reputations: params[0], entryPoint: params[1] }),
+    });
+    registry.register({
+      method: BundlerRPCMethods.debug_bundler_dumpReputation,
+      namespace: "debug_bundler",
+      handler: () => this.dumpReputation(),
+    });
+    registry.register({
+      method: BundlerRPCMethods.debug_bundler_sendBundleNow,
+      namespace: "debug_bundler",
+      handler: () => this.sendBundleNow(),
+    });
+    registry.register({
+      method: BundlerRPCMethods.debug_bundler_getRelayerBalances,
+      namespace: "debug_bundler",
+      handler: () => this.getRelayerBalances(),
+    });
+    registry.register({
+      method: BundlerRPCMethods.debug_bundler_setBundlingTriggers,
+      namespace: "debug_bundler",
+      params: [{ name: "triggers", schema: BundlingTriggersSchema }],
+      handler: (params) => this.setBundlingTriggers(params[0]),
+    });
+    registry.register({
+      method: BundlerRPCMethods.debug_bundler_getBundlingTriggers,
+      namespace: "debug_bundler",
+      handler: () => this.getBundlingTriggers(),
+    });
+  }
 }
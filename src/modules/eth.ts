@@ -4,30 +4,46 @@ import RpcError from "../types/api/errors/rpc-error";
 import * as RpcErrorCodes from "../types/api/errors/rpc-error-codes";
 import {
   EntryPoint,
+  IEntryPoint,
   UserOperationEventEvent,
   UserOperationStruct,
 } from "../types/executor/contracts/EntryPoint";
 import {
+  BundlerStatus,
   EstimatedUserOperationGas,
   UserOperationByHashResponse,
   UserOperationReceipt,
+  UserOperationStatus,
 } from "../types/api/interfaces";
 import { EntryPoint__factory } from "../types/executor/contracts";
 import { NetworkConfig } from "../common/config";
 import { deepHexlify, packUserOp } from "../utils";
 import { UserOpValidationService } from "../services/UserOpValidation";
 import { MempoolService } from "../services/MempoolService";
+import { SubscriptionService } from "../services/SubscriptionService";
+import { BundleTrackerService } from "../services/BundleTrackerService";
+import { BundleStatus } from "../models/EntitiesInterface";
 import { Log, Logger } from "../models/ExecutorInterface";
+import { BundlerRPCMethods, CustomRPCMethods } from "../constants";
 import {
   EstimateUserOperationGasArgs,
   SendUserOperationGasArgs,
 } from "./interfaces";
+import { RpcMethodRegistry } from "./registry";
+import {
+  EntryPointParam,
+  EstimateUserOperationSchema,
+  SendUserOperationSchema,
+  UserOpHashParam,
+} from "./schemas";
 
 export class Eth {
   constructor(
     private provider: ethers.providers.JsonRpcProvider,
     private userOpValidationService: UserOpValidationService,
     private mempoolService: MempoolService,
+    private bundleTrackerService: BundleTrackerService,
+    private subscriptionService: SubscriptionService,
     private config: NetworkConfig,
     private logger: Logger
   ) {}
@@ -48,19 +64,38 @@ export class Eth {
     if (!this.validateEntryPoint(entryPoint)) {
       throw new RpcError("Invalid Entrypoint", RpcErrorCodes.INVALID_REQUEST);
     }
+    if (
+      BigNumber.from(userOp.maxPriorityFeePerGas).lt(
+        this.config.minPriorityFeePerGas
+      )
+    ) {
+      throw new RpcError(
+        `maxPriorityFeePerGas must be at least ${this.config.minPriorityFeePerGas}`,
+        RpcErrorCodes.INVALID_USEROP
+      );
+    }
     this.logger.debug("Validation user op before sending to mempool ...");
     const validationResult =
       await this.userOpValidationService.simulateCompleteValidation(
         userOp,
         entryPoint
       );
+    const aggregator = validationResult.aggregatorInfo?.addr;
+    if (aggregator) {
+      await this.userOpValidationService.validateAggregatorSignature(
+        userOp,
+        aggregator
+      );
+    }
     this.logger.debug("Validation successful. Saving in mempool...");
     await this.mempoolService.addUserOp(
       userOp,
       entryPoint,
       validationResult.returnInfo.prefund.toString(),
       validationResult.senderInfo,
-      validationResult.referencedContracts?.hash
+      validationResult.referencedContracts?.hash,
+      aggregator,
+      validationResult.returnInfo.validUntil
     );
 
     this.logger.debug("Saved in mempool");
@@ -69,7 +104,13 @@ export class Eth {
       entryPoint,
       this.provider
     );
-    return entryPointContract.getUserOpHash(userOp);
+    const userOpHash = await entryPointContract.getUserOpHash(userOp);
+    this.subscriptionService.notifyPendingUserOp(
+      userOp,
+      entryPoint,
+      userOpHash
+    );
+    return userOpHash;
   }
 
   async validateUserOp(args: SendUserOperationGasArgs): Promise<boolean> {
@@ -87,10 +128,17 @@ export class Eth {
         RpcErrorCodes.INVALID_USEROP
       );
     }
-    await this.userOpValidationService.simulateCompleteValidation(
-      userOp,
-      entryPoint
-    );
+    const validationResult =
+      await this.userOpValidationService.simulateCompleteValidation(
+        userOp,
+        entryPoint
+      );
+    if (validationResult.aggregatorInfo) {
+      await this.userOpValidationService.validateAggregatorSignature(
+        userOp,
+        validationResult.aggregatorInfo.addr
+      );
+    }
     return true;
   }
 
@@ -99,14 +147,19 @@ export class Eth {
   ): Promise<UserOperationByHashResponse | null> {
     const [entryPoint, event] = await this.getUserOperationEvent(hash);
     if (!entryPoint || !event) {
-      return null;
+      return await this.getPendingUserOperation(hash);
     }
     const tx = await event.getTransaction();
     if (tx.to !== entryPoint.address) {
       throw new Error("unable to parse transaction");
     }
     const parsed = entryPoint.interface.parseTransaction(tx);
-    const ops: UserOperationStruct[] = parsed?.args.ops;
+    const ops: UserOperationStruct[] =
+      parsed?.name === "handleAggregatedOps"
+        ? parsed.args.opsPerAggregator.flatMap(
+            (group: IEntryPoint.UserOpsPerAggregatorStruct) => group.userOps
+          )
+        : parsed?.args.ops;
     if (ops.length == 0) {
       throw new Error("failed to parse transaction");
     }
@@ -154,6 +207,60 @@ export class Eth {
     });
   }
 
+  /**
+   * Returns the progress of a user op: pending in the mempool, submitted in a bundle,
+   * included on chain (failed if its execution reverted) or dropped
+   * Returns null for an unknown userOpHash
+   * @param hash userOpHash
+   */
+  async getUserOperationStatus(
+    hash: string
+  ): Promise<UserOperationStatus | null> {
+    const entry = await this.mempoolService.findByHash(hash);
+    if (entry && !entry.submittedIn) {
+      return { status: "pending" };
+    }
+    const [entryPoint, event] = await this.getUserOperationEvent(hash);
+    if (entryPoint && event) {
+      const status: UserOperationStatus = {
+        status: event.args.success ? "included" : "failed",
+        transactionHash: event.transactionHash,
+        blockHash: event.blockHash,
+        blockNumber: event.blockNumber,
+      };
+      if (!event.args.success) {
+        const [revert] = await entryPoint.queryFilter(
+          entryPoint.filters.UserOperationRevertReason(hash),
+          event.blockNumber,
+          event.blockNumber
+        );
+        status.reason = revert?.args.revertReason;
+      }
+      return status;
+    }
+    const bundle = await this.bundleTrackerService.getBundleByUserOpHash(hash);
+    if (!bundle) {
+      return null;
+    }
+    const { transactionHash } = bundle;
+    switch (bundle.status) {
+      case BundleStatus.REVERTED:
+        return {
+          status: "failed",
+          transactionHash,
+          blockHash: bundle.blockHash,
+          blockNumber: bundle.blockNumber,
+          reason: "bundle reverted",
+        };
+      case BundleStatus.DROPPED:
+      case BundleStatus.CANCELLED:
+        return { status: "dropped", transactionHash };
+      default:
+        // a mined bundle without event was reorged out, it might be mined again
+        return { status: "submitted", transactionHash };
+    }
+  }
+
   async getChainId(): Promise<number> {
     return (await this.provider.getNetwork()).chainId;
   }
@@ -186,7 +293,16 @@ export class Eth {
     if (!this.validateEntryPoint(entryPoint)) {
       throw new RpcError("Invalid Entrypoint", RpcErrorCodes.INVALID_REQUEST);
     }
+    // fields the client may leave out, only their encoded size matters for the preVerificationGas
+    const placeholders = {
+      callGasLimit: 10e6,
+      verificationGasLimit: 10e6,
+      maxFeePerGas: 1e11,
+      maxPriorityFeePerGas: 1e11,
+      paymasterAndData: "0x",
+    };
     const userOpComplemented: UserOperationStruct = {
+      ...placeholders,
       ...userOp,
       paymasterAndData: "0x",
       maxFeePerGas: 0,
@@ -211,7 +327,10 @@ export class Eth {
           err.message.match(/reason="(.*?)"/)?.at(1) ?? "Execution reverted";
         throw new RpcError(msg, RpcErrorCodes.EXECUTION_REVERTED);
       });
-    const preVerificationGas = this.calcPreVerificationGas(userOp);
+    const preVerificationGas = this.calcPreVerificationGas({
+      ...placeholders,
+      ...userOp,
+    });
     const verificationGas = BigNumber.from(returnInfo.preOpGas).toNumber();
     let deadline: any = undefined;
     if (returnInfo.deadline) {
@@ -231,6 +350,87 @@ export class Eth {
     );
   }
 
+  /**
+   * Validation mode of the bundler, clients must not rely on an unsafe bundler for spec-compliant validation
+   */
+  async getBundlerStatus(): Promise<BundlerStatus> {
+    const unsafe = this.userOpValidationService.isUnsafe();
+    return {
+      validationMode: unsafe ? "unsafe" : "safe",
+      tracer: this.userOpValidationService.getTracerBackend(),
+      entryPoints: await this.getSupportedEntryPoints(),
+    };
+  }
+
+  registerMethods(registry: RpcMethodRegistry): void {
+    registry.register({
+      method: BundlerRPCMethods.eth_chainId,
+      namespace: "eth",
+      handler: () => this.getChainId(),
+    });
+    registry.register({
+      method: BundlerRPCMethods.eth_supportedEntryPoints,
+      namespace: "eth",
+      handler: () => this.getSupportedEntryPoints(),
+    });
+    registry.register({
+      method: BundlerRPCMethods.eth_sendUserOperation,
+      namespace: "eth",
+      params: [
+        { name: "userOp", schema: SendUserOperationSchema },
+        EntryPointParam,
+      ],
+      handler: (params) =>
+        this.sendUserOperation({ userOp: params[0], entryPoint: params[1] }),
+    });
+    registry.register({
+      method: CustomRPCMethods.eth_validateUserOperation,
+      namespace: "eth",
+      params: [
+        { name: "userOp", schema: SendUserOperationSchema },
+        EntryPointParam,
+      ],
+      handler: (params) =>
+        this.validateUserOp({ userOp: params[0], entryPoint: params[1] }),
+    });
+    registry.register({
+      method: BundlerRPCMethods.eth_estimateUserOperationGas,
+      namespace: "eth",
+      params: [
+        { name: "userOp", schema: EstimateUserOperationSchema },
+        EntryPointParam,
+      ],
+      handler: (params) =>
+        this.estimateUserOperationGas({
+          userOp: params[0],
+          entryPoint: params[1],
+        }),
+    });
+    registry.register({
+      method: BundlerRPCMethods.eth_getUserOperationByHash,
+      namespace: "eth",
+      params: [UserOpHashParam],
+      handler: (params) => this.getUserOperationByHash(params[0]),
+    });
+    registry.register({
+      method: BundlerRPCMethods.eth_getUserOperationReceipt,
+      namespace: "eth",
+      params: [UserOpHashParam],
+      handler: (params) => this.getUserOperationReceipt(params[0]),
+    });
+    registry.register({
+      method: CustomRPCMethods.eth_getUserOperationStatus,
+      namespace: "eth",
+      params: [UserOpHashParam],
+      handler: (params) => this.getUserOperationStatus(params[0]),
+    });
+    registry.register({
+      method: CustomRPCMethods.eth_getBundlerStatus,
+      namespace: "eth",
+      handler: () => this.getBundlerStatus(),
+    });
+  }
+
   //INTERNAL METHODS
 
   private filterLogs(userOpEvent: UserOperationEventEvent, logs: Log[]): Log[] {
@@ -253,6 +453,51 @@ export class Eth {
     return logs.slice(startIndex + 1, endIndex);
   }
 
+  /**
+   * Finds a user op which is not on chain yet: in the mempool, or in a bundle waiting to be mined
+   * Block fields of the response are null
+   * @param userOpHash
+   */
+  private async getPendingUserOperation(
+    userOpHash: string
+  ): Promise<UserOperationByHashResponse | null> {
+    const entry = await this.mempoolService.findByHash(userOpHash);
+    if (entry && !entry.submittedIn) {
+      return deepHexlify({
+        userOperation: entry.userOp,
+        entryPoint: entry.entryPoint,
+        transactionHash: null,
+        blockHash: null,
+        blockNumber: null,
+      });
+    }
+    const bundle = await this.bundleTrackerService.getBundleByUserOpHash(
+      userOpHash
+    );
+    if (
+      bundle?.status !== BundleStatus.PENDING &&
+      bundle?.status !== BundleStatus.MINED
+    ) {
+      return null;
+    }
+    const bundled =
+      bundle.entries[
+        bundle.userOpHashes.findIndex(
+          (hash) => hash.toLowerCase() === userOpHash.toLowerCase()
+        )
+      ];
+    if (!bundled) {
+      return null;
+    }
+    return deepHexlify({
+      userOperation: bundled.userOp,
+      entryPoint: bundle.entryPoint,
+      transactionHash: bundle.transactionHash,
+      blockHash: null,
+      blockNumber: null,
+    });
+  }
+
   private async getUserOperationEvent(
     userOpHash: string
   ): Promise<[EntryPoint | null, UserOperationEventEvent | null]> {
@@ -1,2 +1,4 @@
 export * from "./debug";
 export * from "./eth";
+export * from "./schemas";
+export * from "./registry";
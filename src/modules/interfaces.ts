@@ -12,7 +12,7 @@ export class EstimateUserOperationStruct {
   maxPriorityFeePerGas?: BigNumberish;
   paymasterAndData?: BytesLike;
   signature!: BytesLike;
-  callGasLimit!: BigNumberish;
+  callGasLimit?: BigNumberish;
 }
 
 export class EstimateUserOperationGasArgs {
@@ -0,0 +1,75 @@
+import RpcError from "../types/api/errors/rpc-error";
+import * as RpcErrorCodes from "../types/api/errors/rpc-error-codes";
+import { NamedParamSchema, validateParams } from "./schemas";
+
+export type RpcNamespace = "eth" | "debug_bundler";
+
+export interface RpcMethodDefinition {
+  method: string;
+  namespace: RpcNamespace;
+  // positional params, validated before the handler is called
+  params?: NamedParamSchema[];
+  // if true, the method is only exposed when the bundler runs in testing mode
+  testingOnly?: boolean;
+  handler: (params: any[]) => Promise<any> | any;
+}
+
+export interface RpcMethodRegistryOptions {
+  testingMode: boolean;
+  disabledNamespaces: RpcNamespace[];
+}
+
+export class RpcMethodRegistry {
+  private methods = new Map<string, RpcMethodDefinition>();
+
+  constructor(private options: RpcMethodRegistryOptions) {}
+
+  register(definition: RpcMethodDefinition): void {
+    if (this.methods.has(definition.method)) {
+      throw new Error(`Method ${definition.method} is already registered`);
+    }
+    this.methods.set(definition.method, definition);
+  }
+
+  /**
+   * Returns the definition of a method if it is registered and enabled
+   * @param method
+   */
+  get(method: string): RpcMethodDefinition | undefined {
+    const definition = this.methods.get(method);
+    if (!definition || !this.isEnabled(definition)) {
+      return undefined;
+    }
+    return definition;
+  }
+
+  /**
+   * Returns the names of all enabled methods
+   */
+  list(): string[] {
+    return Array.from(this.methods.values())
+      .filter((definition) => this.isEnabled(definition))
+      .map((definition) => definition.method);
+  }
+
+  async dispatch(method: string, params: any[]): Promise<any> {
+    const definition = this.get(method);
+    if (!definition) {
+      throw new RpcError(
+        `Method ${method} not found`,
+        RpcErrorCodes.METHOD_NOT_FOUND
+      );
+    }
+    validateParams(definition.params ?? [], params);
+    return await definition.handler(params);
+  }
+
+  // INTERNAL METHODS
+
+  private isEnabled(definition: RpcMethodDefinition): boolean {
+    if (this.options.disabledNamespaces.includes(definition.namespace)) {
+      return false;
+    }
+    return !definition.testingOnly || this.options.testingMode;
+  }
+}
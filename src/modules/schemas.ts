@@ -0,0 +1,286 @@
+import { ethers } from "ethers";
+import { isAddress, isHexString } from "ethers/lib/utils";
+import RpcError from "../types/api/errors/rpc-error";
+import * as RpcErrorCodes from "../types/api/errors/rpc-error-codes";
+import { ReputationStatus } from "../models/EntitiesInterface";
+import { subscriptionTopics } from "../services/SubscriptionService";
+
+export type ParamSchema = (
+  | { type: "address" }
+  | { type: "uint256" }
+  | { type: "bytes32" }
+  | {
+      type: "bytes";
+      // bounds apply to non-empty values only, "0x" is checked with allowEmpty
+      minLength?: number;
+      maxLength?: number;
+      allowEmpty?: boolean;
+    }
+  | { type: "number"; min?: number; max?: number }
+  | { type: "string"; enum?: string[] }
+  | { type: "boolean" }
+  | { type: "object"; properties: { [key: string]: ParamSchema } }
+  | { type: "array"; items: ParamSchema; maxItems?: number }
+) & { optional?: boolean };
+
+export interface NamedParamSchema {
+  name: string;
+  schema: ParamSchema;
+}
+
+const uint256: ParamSchema = { type: "uint256" };
+const optionalUint256: ParamSchema = { type: "uint256", optional: true };
+
+// initCode and paymasterAndData must start with the address of the factory / paymaster
+const addressPrefixedBytes: ParamSchema = {
+  type: "bytes",
+  minLength: 20,
+  allowEmpty: true,
+};
+
+export const SendUserOperationSchema: ParamSchema = {
+  type: "object",
+  properties: {
+    sender: { type: "address" },
+    nonce: uint256,
+    initCode: addressPrefixedBytes,
+    callData: { type: "bytes", allowEmpty: true },
+    callGasLimit: uint256,
+    verificationGasLimit: uint256,
+    preVerificationGas: uint256,
+    maxFeePerGas: uint256,
+    maxPriorityFeePerGas: uint256,
+    paymasterAndData: addressPrefixedBytes,
+    signature: { type: "bytes", allowEmpty: true },
+  },
+};
+
+export const EstimateUserOperationSchema: ParamSchema = {
+  type: "object",
+  properties: {
+    sender: { type: "address" },
+    nonce: uint256,
+    initCode: addressPrefixedBytes,
+    callData: { type: "bytes", allowEmpty: true },
+    callGasLimit: optionalUint256,
+    verificationGasLimit: optionalUint256,
+    preVerificationGas: optionalUint256,
+    maxFeePerGas: optionalUint256,
+    maxPriorityFeePerGas: optionalUint256,
+    paymasterAndData: { ...addressPrefixedBytes, optional: true },
+    signature: { type: "bytes", allowEmpty: true },
+  },
+};
+
+export const SetReputationSchema: ParamSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: {
+      address: { type: "address" },
+      opsSeen: { type: "number", min: 0 },
+      opsIncluded: { type: "number", min: 0 },
+      status: {
+        type: "string",
+        enum: Object.values(ReputationStatus),
+        optional: true,
+      },
+    },
+  },
+};
+
+export const BundlingTriggersSchema: ParamSchema = {
+  type: "object",
+  properties: {
+    mempoolSize: { type: "number", min: 1, optional: true },
+    mempoolGas: { type: "uint256", optional: true },
+    maxOpAge: { type: "number", min: 0, optional: true },
+    onNewBlock: { type: "boolean", optional: true },
+  },
+};
+
+export const EntryPointParam: NamedParamSchema = {
+  name: "entryPoint",
+  schema: { type: "address" },
+};
+
+export const UserOpHashParam: NamedParamSchema = {
+  name: "userOpHash",
+  schema: { type: "bytes32" },
+};
+
+export const SubscribeParams: NamedParamSchema[] = [
+  {
+    name: "topic",
+    schema: { type: "string", enum: subscriptionTopics },
+  },
+  {
+    name: "filter",
+    schema: {
+      type: "object",
+      optional: true,
+      properties: {
+        sender: { type: "address", optional: true },
+        paymaster: { type: "address", optional: true },
+        userOpHash: { type: "bytes32", optional: true },
+      },
+    },
+  },
+];
+
+/**
+ * Validates positional params of a RPC method against their schemas
+ * Throws INVALID_USEROP (-32602) with the path of the first invalid field
+ * @param schemas
+ * @param params
+ */
+export function validateParams(
+  schemas: NamedParamSchema[],
+  params: any[]
+): void {
+  schemas.forEach(({ name, schema }, index) => {
+    validateValue(schema, params[index], name);
+  });
+}
+
+/**
+ * Validates a single value against a schema
+ * @param schema
+ * @param value
+ * @param path name of the validated field, used in the error message
+ */
+export function validateValue(
+  schema: ParamSchema,
+  value: any,
+  path: string
+): void {
+  if (value === undefined || value === null) {
+    if (schema.optional) {
+      return;
+    }
+    throw invalidParam(path, "is required");
+  }
+
+  switch (schema.type) {
+    case "address": {
+      // lowercase addresses carry no checksum, mixed case ones must have a valid one
+      if (typeof value !== "string" || !isAddress(value)) {
+        throw invalidParam(
+          path,
+          "must be a lowercase or checksummed 20 bytes address"
+        );
+      }
+      break;
+    }
+    case "uint256": {
+      let bn: ethers.BigNumber;
+      try {
+        if (
+          (typeof value === "string" &&
+            !isHexString(value) &&
+            !/^\d+$/.test(value)) ||
+          (typeof value === "number" && !Number.isSafeInteger(value))
+        ) {
+          throw new Error();
+        }
+        bn = ethers.BigNumber.from(value);
+      } catch (_) {
+        throw invalidParam(path, "must be a hex or decimal integer");
+      }
+      if (bn.isNegative() || bn.gt(ethers.constants.MaxUint256)) {
+        throw invalidParam(path, "must be within uint256 bounds");
+      }
+      break;
+    }
+    case "bytes32": {
+      if (!isHexString(value, 32)) {
+        throw invalidParam(path, "must be a 32 bytes hex string");
+      }
+      break;
+    }
+    case "bytes": {
+      if (!isHexString(value) || value.length % 2 !== 0) {
+        throw invalidParam(path, "must be an even length hex string");
+      }
+      const length = (value.length - 2) / 2;
+      if (length === 0) {
+        if (!schema.allowEmpty) {
+          throw invalidParam(path, "must not be empty");
+        }
+        break;
+      }
+      if (schema.minLength != null && length < schema.minLength) {
+        throw invalidParam(
+          path,
+          `must be at least ${schema.minLength} bytes long`
+        );
+      }
+      if (schema.maxLength != null && length > schema.maxLength) {
+        throw invalidParam(
+          path,
+          `must be at most ${schema.maxLength} bytes long`
+        );
+      }
+      break;
+    }
+    case "number": {
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        throw invalidParam(path, "must be a number");
+      }
+      if (schema.min != null && value < schema.min) {
+        throw invalidParam(path, `must be greater or equal to ${schema.min}`);
+      }
+      if (schema.max != null && value > schema.max) {
+        throw invalidParam(path, `must be less or equal to ${schema.max}`);
+      }
+      break;
+    }
+    case "string": {
+      if (typeof value !== "string") {
+        throw invalidParam(path, "must be a string");
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        throw invalidParam(path, `must be one of ${schema.enum.join(", ")}`);
+      }
+      break;
+    }
+    case "boolean": {
+      if (typeof value !== "boolean") {
+        throw invalidParam(path, "must be a boolean");
+      }
+      break;
+    }
+    case "object": {
+      if (typeof value !== "object" || Array.isArray(value)) {
+        throw invalidParam(path, "must be an object");
+      }
+      for (const [key, propertySchema] of Object.entries(schema.properties)) {
+        validateValue(propertySchema, value[key], `${path}.${key}`);
+      }
+      break;
+    }
+    case "array": {
+      if (!Array.isArray(value)) {
+        throw invalidParam(path, "must be an array");
+      }
+      if (schema.maxItems != null && value.length > schema.maxItems) {
+        throw invalidParam(
+          path,
+          `must contain at most ${schema.maxItems} items`
+        );
+      }
+      value.forEach((item, index) =>
+        validateValue(schema.items, item, `${path}[${index}]`)
+      );
+      break;
+    }
+  }
+}
+
+function invalidParam(field: string, reason: string): RpcError {
+  return new RpcError(
+    `Invalid params: ${field} ${reason}`,
+    RpcErrorCodes.INVALID_USEROP,
+    { field, reason }
+  );
+}
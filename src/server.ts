@@ -1,5 +1,6 @@
 import fastify, { FastifyInstance } from "fastify";
 import RpcError from "./types/api/errors/rpc-error";
+import * as RpcErrorCodes from "./types/api/errors/rpc-error-codes";
 import { ServerConfig } from "./types/api/interfaces";
 import logger from "./logger";
 import { ApiApp } from "./app";
@@ -7,6 +8,7 @@ import { globalConfig } from "./common/globalConfig";
 import { IDbController } from "./types/db";
 import { RocksDbController } from "./db/rocksDb";
 import cors from "@fastify/cors";
+import websocket from "@fastify/websocket";
 
 class Server {
   private app: FastifyInstance;
@@ -49,6 +51,20 @@ class Server {
   listen(): void {
     this.app.setErrorHandler((err, req, res) => {
       logger.error(err);
+      // body could not be parsed as JSON
+      if (
+        err instanceof SyntaxError ||
+        err.code === "FST_ERR_CTP_EMPTY_JSON_BODY"
+      ) {
+        return res.status(200).send({
+          jsonrpc: "2.0",
+          id: null,
+          error: {
+            message: "Parse error",
+            code: RpcErrorCodes.PARSE_ERROR,
+          },
+        });
+      }
       if (err instanceof RpcError) {
         const body = req.body as any;
         const error = {
@@ -91,12 +107,15 @@ async function main() {
     origin: "*",
     methods: ["POST"],
   });
-  new ApiApp({
+  // websocket routes can only be declared once the plugin is loaded
+  await server.application.register(websocket);
+  const app = new ApiApp({
     server: server.application,
     config: config,
     db: db,
     testingMode: false,
   });
+  await app.init();
 
   server.listen();
 }
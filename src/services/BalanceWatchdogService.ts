@@ -0,0 +1,259 @@
+import { BigNumber, Wallet, providers } from "ethers";
+import { Mutex } from "async-mutex";
+import RpcError from "../types/api/errors/rpc-error";
+import * as RpcErrorCodes from "../types/api/errors/rpc-error-codes";
+import { NetworkName } from "../types/networks";
+import { Config, NetworkConfig } from "../common/config";
+import { Logger } from "../models/ExecutorInterface";
+import { RelayerService } from "./RelayerService";
+import { IFeeOracle } from "./FeeOracle";
+
+export type RelayerBalanceState = "ok" | "warning" | "insufficient";
+
+export interface RelayerBalance {
+  address: string;
+  balance: BigNumber;
+  pending: number;
+  state: RelayerBalanceState;
+}
+
+export interface BalanceWatchdogStatus {
+  // bundling is paused while no relayer can pay for a bundle
+  paused: boolean;
+  // worst-case cost of a bundle: maxBundleGas at the current max fee per gas
+  requiredBalance: BigNumber;
+  relayers: RelayerBalance[];
+  lastCheck: number;
+}
+
+export class BalanceWatchdogService {
+  private status?: BalanceWatchdogStatus;
+  // unmined sweep transactions by relayer address, the relayer isn't topped up again until they land
+  private pendingSweeps = new Map<
+    string,
+    { hash: string; nonce: number; amount: BigNumber }
+  >();
+  private pollingCron?: NodeJS.Timeout;
+  private mutex: Mutex;
+  private networkConfig: NetworkConfig;
+
+  constructor(
+    private network: NetworkName,
+    private provider: providers.JsonRpcProvider,
+    private relayerService: RelayerService,
+    private feeOracle: IFeeOracle,
+    private config: Config,
+    private logger: Logger
+  ) {
+    this.mutex = new Mutex();
+    this.networkConfig = this.config.getNetworkConfig(network)!;
+  }
+
+  /**
+   * Checks the relayer balances now, then every `balanceCheckInterval` ms
+   */
+  start(): void {
+    if (this.pollingCron) {
+      return;
+    }
+    this.pollingCron = setInterval(() => {
+      void this.checkBalances();
+    }, this.networkConfig.balanceCheckInterval);
+    void this.checkBalances();
+  }
+
+  stop(): void {
+    clearInterval(this.pollingCron);
+    this.pollingCron = undefined;
+  }
+
+  isPaused(): boolean {
+    return this.status?.paused ?? false;
+  }
+
+  /**
+   * Minimal balance of a relayer to send a bundle, as of the last check
+   */
+  getRequiredBalance(): BigNumber {
+    return this.status?.requiredBalance ?? BigNumber.from(0);
+  }
+
+  /**
+   * Returns true if the relayer balance was below the warning threshold at the last check
+   * @param address
+   */
+  isLowBalance(address: string): boolean {
+    const relayer = this.status?.relayers.find(
+      (relayer) => relayer.address === address
+    );
+    return relayer != null && relayer.state !== "ok";
+  }
+
+  /**
+   * Returns the status of the last balance check, throws if no check succeeded yet
+   */
+  async getStatus(): Promise<BalanceWatchdogStatus> {
+    if (!this.status) {
+      await this.checkBalances();
+    }
+    if (!this.status) {
+      throw new RpcError(
+        "Relayer balances are unknown, the balance check failed",
+        RpcErrorCodes.INTERNAL_ERROR
+      );
+    }
+    return this.status;
+  }
+
+  // INTERNAL METHODS
+
+  private async checkBalances(): Promise<void> {
+    await this.mutex.runExclusive(async () => {
+      try {
+        const fees = await this.feeOracle.getFees();
+        const maxFeePerGas =
+          fees.mode === "legacy" ? fees.gasPrice : fees.maxFeePerGas;
+        const requiredBalance = maxFeePerGas.mul(
+          this.networkConfig.maxBundleGas
+        );
+        const minBalance = requiredBalance.gt(
+          this.networkConfig.minSignerBalance
+        )
+          ? requiredBalance
+          : BigNumber.from(this.networkConfig.minSignerBalance);
+
+        const relayers: RelayerBalance[] = [];
+        for (const relayer of await this.relayerService.getRelayers()) {
+          const { address, balance, pending } =
+            await this.relayerService.getStatus(relayer);
+          const state: RelayerBalanceState = balance.lt(minBalance)
+            ? "insufficient"
+            : balance.lt(this.networkConfig.relayerWarningBalance)
+            ? "warning"
+            : "ok";
+          this.reportState(address, balance, state);
+          relayers.push({ address, balance, pending, state });
+        }
+
+        const paused = relayers.every(
+          (relayer) => relayer.state === "insufficient"
+        );
+        if (paused && !this.isPaused()) {
+          this.logger.error(
+            `Bundling paused on ${this.network}: no relayer can cover ${requiredBalance}`
+          );
+        } else if (!paused && this.isPaused()) {
+          this.logger.info(`Bundling resumed on ${this.network}`);
+        }
+        this.status = {
+          paused,
+          requiredBalance,
+          relayers,
+          lastCheck: Date.now(),
+        };
+
+        if (this.networkConfig.beneficiarySweep) {
+          await this.sweepBeneficiary(relayers);
+        }
+      } catch (err) {
+        this.logger.error(err, "Failed to check relayer balances");
+      }
+    });
+  }
+
+  /**
+   * Logs the balance of a relayer when it enters or leaves a warning state
+   * @param address
+   * @param balance
+   * @param state
+   */
+  private reportState(
+    address: string,
+    balance: BigNumber,
+    state: RelayerBalanceState
+  ): void {
+    const previous = this.status?.relayers.find(
+      (relayer) => relayer.address === address
+    )?.state;
+    if (previous === state || (previous == null && state === "ok")) {
+      return;
+    }
+    const metadata = {
+      metadata: {
+        network: this.network,
+        relayer: address,
+        balance: balance.toString(),
+        state,
+      },
+    };
+    if (state === "ok") {
+      this.logger.info(
+        `Relayer ${address} balance is back to normal`,
+        metadata
+      );
+    } else {
+      this.logger.warn(`Relayer ${address} balance is ${state}`, metadata);
+    }
+  }
+
+  /**
+   * Tops up relayers below `targetRelayerBalance` with the beneficiary balance above `minBeneficiaryBalance`
+   * Sweep transactions are not awaited, a relayer is skipped while its last sweep is pending
+   * @param relayers
+   */
+  private async sweepBeneficiary(relayers: RelayerBalance[]): Promise<void> {
+    const policy = this.networkConfig.beneficiarySweep!;
+    const beneficiary = new Wallet(policy.privateKey, this.provider);
+    const gasPrice = await this.provider.getGasPrice();
+    const transferCost = gasPrice.mul(21000);
+    for (const relayer of relayers) {
+      if (relayer.address === beneficiary.address) {
+        continue;
+      }
+      const pendingSweep = this.pendingSweeps.get(relayer.address);
+      if (pendingSweep) {
+        // the balance of this check might predate the sweep, it is topped up again at the next check
+        // a sweep whose nonce was used by another transaction was dropped
+        if (
+          (await this.provider.getTransactionReceipt(pendingSweep.hash)) ||
+          (await beneficiary.getTransactionCount()) > pendingSweep.nonce
+        ) {
+          this.pendingSweeps.delete(relayer.address);
+        }
+        continue;
+      }
+      const missing = BigNumber.from(policy.targetRelayerBalance).sub(
+        relayer.balance
+      );
+      if (missing.lte(0)) {
+        continue;
+      }
+      const pendingAmount = [...this.pendingSweeps.values()].reduce(
+        (sum, sweep) => sum.add(sweep.amount).add(transferCost),
+        BigNumber.from(0)
+      );
+      const available = (await beneficiary.getBalance())
+        .sub(pendingAmount)
+        .sub(policy.minBeneficiaryBalance)
+        .sub(transferCost);
+      const amount = available.lt(missing) ? available : missing;
+      if (amount.lte(0)) {
+        return;
+      }
+      const tx = await beneficiary.sendTransaction({
+        to: relayer.address,
+        value: amount,
+        gasLimit: 21000,
+        gasPrice,
+      });
+      this.logger.info(
+        `Swept ${amount} from beneficiary ${beneficiary.address} to ${relayer.address}: ${tx.hash}`
+      );
+      this.pendingSweeps.set(relayer.address, {
+        hash: tx.hash,
+        nonce: tx.nonce,
+        amount,
+      });
+    }
+  }
+}
@@ -0,0 +1,156 @@
+import { providers } from "ethers";
+import WebSocket from "ws";
+import { NetworkName } from "../types/networks";
+import { Config, NetworkConfig } from "../common/config";
+import { Logger } from "../models/ExecutorInterface";
+
+export interface BlockNotification {
+  number: number;
+  // local time the block was received at, in ms
+  receivedAt: number;
+}
+
+export type BlockListener = (block: BlockNotification) => void;
+
+export class BlockWatcherService {
+  private listeners = new Set<BlockListener>();
+  private lastBlock?: BlockNotification;
+  // time between the last received blocks, in ms
+  private blockTimes: number[] = [];
+  private BLOCK_TIMES_SAMPLE = 20;
+  private DEFAULT_BLOCK_TIME = 12 * 1000;
+  private wsProvider?: providers.WebSocketProvider;
+  private watching = false;
+  private networkConfig: NetworkConfig;
+
+  constructor(
+    private network: NetworkName,
+    private provider: providers.JsonRpcProvider,
+    private config: Config,
+    private logger: Logger
+  ) {
+    this.networkConfig = this.config.getNetworkConfig(network)!;
+  }
+
+  /**
+   * Calls the listener on every new block, returns a function removing it
+   * New heads are received through `wsRpcEndpoint` if configured, by polling the rpc otherwise
+   * @param listener
+   */
+  subscribe(listener: BlockListener): () => void {
+    this.listeners.add(listener);
+    if (!this.watching) {
+      this.watch();
+    }
+    return () => {
+      this.listeners.delete(listener);
+      if (!this.listeners.size) {
+        this.unwatch();
+      }
+    };
+  }
+
+  getLastBlock(): BlockNotification | undefined {
+    return this.lastBlock;
+  }
+
+  /**
+   * Average time between the last blocks, in ms
+   */
+  getBlockTime(): number {
+    if (!this.blockTimes.length) {
+      return this.DEFAULT_BLOCK_TIME;
+    }
+    const sum = this.blockTimes.reduce((sum, time) => sum + time, 0);
+    return Math.round(sum / this.blockTimes.length);
+  }
+
+  /**
+   * Local time the next block is expected at, in ms
+   */
+  getNextBlockTime(): number {
+    const lastBlockTime = this.lastBlock?.receivedAt ?? Date.now();
+    return lastBlockTime + this.getBlockTime();
+  }
+
+  // INTERNAL METHODS
+
+  private watch(): void {
+    this.watching = true;
+    const wsRpcEndpoint = this.networkConfig.wsRpcEndpoint;
+    if (!wsRpcEndpoint) {
+      this.watchPolling();
+      return;
+    }
+    try {
+      // the provider doesn't report a closed socket, it is opened here to be watched
+      const websocket = new WebSocket(wsRpcEndpoint);
+      websocket.on("error", (err) => {
+        this.logger.error(
+          err,
+          `New heads subscription failed on ${this.network}`
+        );
+      });
+      websocket.on("close", () => this.onWebSocketClosed(websocket));
+      this.wsProvider = new providers.WebSocketProvider(websocket);
+      this.wsProvider.on("block", this.onBlock);
+    } catch (err) {
+      this.logger.error(err, "Failed to subscribe to new heads");
+      this.wsProvider = undefined;
+      this.watchPolling();
+    }
+  }
+
+  /**
+   * Falls back to polling when the socket of the current new heads subscription is closed
+   * @param websocket
+   */
+  private onWebSocketClosed(websocket: WebSocket): void {
+    if (!this.watching || this.wsProvider?.websocket !== websocket) {
+      return;
+    }
+    this.logger.warn(
+      `New heads subscription closed on ${this.network}, falling back to polling`
+    );
+    this.wsProvider.removeAllListeners();
+    this.wsProvider = undefined;
+    this.watchPolling();
+  }
+
+  private watchPolling(): void {
+    this.provider.pollingInterval = this.networkConfig.blockPollingInterval;
+    this.provider.on("block", this.onBlock);
+  }
+
+  private unwatch(): void {
+    this.watching = false;
+    this.provider.off("block", this.onBlock);
+    if (this.wsProvider) {
+      const wsProvider = this.wsProvider;
+      this.wsProvider = undefined;
+      wsProvider.removeAllListeners();
+      void wsProvider.destroy();
+    }
+  }
+
+  private onBlock = (blockNumber: number): void => {
+    if (this.lastBlock && blockNumber <= this.lastBlock.number) {
+      return;
+    }
+    const block = { number: blockNumber, receivedAt: Date.now() };
+    if (this.lastBlock && blockNumber === this.lastBlock.number + 1) {
+      this.blockTimes.push(block.receivedAt - this.lastBlock.receivedAt);
+      if (this.blockTimes.length > this.BLOCK_TIMES_SAMPLE) {
+        this.blockTimes.shift();
+      }
+    }
+    this.lastBlock = block;
+    for (const listener of this.listeners) {
+      try {
+        listener(block);
+      } catch (err) {
+        this.logger.error(err, "Failed to notify new block");
+      }
+    }
+  };
+}
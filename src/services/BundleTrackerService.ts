@@ -0,0 +1,691 @@
+import { BigNumber, BigNumberish, ethers, providers } from "ethers";
+import { hexValue } from "ethers/lib/utils";
+import { Mutex } from "async-mutex";
+import { IDbController } from "../types/db";
+import { EntryPoint__factory } from "../types/executor/contracts";
+import { UserOperationEventEventObject } from "../types/executor/contracts/EntryPoint";
+import { getAddr } from "../utils";
+import { MempoolEntry } from "../models/MempoolEntry";
+import {
+  BundleStatus,
+  IBundleEntry,
+  MempoolEntrySerialized,
+} from "../models/EntitiesInterface";
+import { Logger } from "../models/ExecutorInterface";
+import { NetworkName } from "../types/networks";
+import { Config, NetworkConfig } from "../common/config";
+import { ReputationService } from "./ReputationService";
+import { SubscriptionService } from "./SubscriptionService";
+import { MempoolService } from "./MempoolService";
+import { UserOpValidationService } from "./UserOpValidation";
+import { IFeeOracle } from "./FeeOracle";
+import { RelayerService } from "./RelayerService";
+
+export class BundleTrackerService {
+  private PENDING_COLL_KEY: string;
+  // mined bundles waiting for `confirmationDepth` blocks
+  private CONFIRMING_COLL_KEY: string;
+  private BUNDLE_COLL_KEY: string;
+  private pollingInterval = 5 * 1000;
+  private pollingCron?: NodeJS.Timeout;
+  private mutex: Mutex;
+  private networkConfig: NetworkConfig;
+
+  constructor(
+    private db: IDbController,
+    private chainId: number,
+    private network: NetworkName,
+    private provider: providers.JsonRpcProvider,
+    private mempoolService: MempoolService,
+    private userOpValidationService: UserOpValidationService,
+    private reputationService: ReputationService,
+    private subscriptionService: SubscriptionService,
+    private feeOracle: IFeeOracle,
+    private relayerService: RelayerService,
+    private config: Config,
+    private logger: Logger
+  ) {
+    this.networkConfig = this.config.getNetworkConfig(network)!;
+    this.BUNDLE_COLL_KEY = `${chainId}:BUNDLES`;
+    this.PENDING_COLL_KEY = `${this.BUNDLE_COLL_KEY}:PENDING`;
+    this.CONFIRMING_COLL_KEY = `${this.BUNDLE_COLL_KEY}:CONFIRMING`;
+    this.mutex = new Mutex();
+  }
+
+  /**
+   * Starts polling the pending and mined bundles every `pollingInterval` ms
+   */
+  start(): void {
+    if (this.pollingCron) {
+      return;
+    }
+    this.pollingCron = setInterval(() => {
+      void this.checkPendingBundles();
+    }, this.pollingInterval);
+  }
+
+  stop(): void {
+    clearInterval(this.pollingCron);
+    this.pollingCron = undefined;
+  }
+
+  /**
+   * Starts tracking a submitted handleOps transaction until it is mined or dropped
+   * Pending transactions are resubmitted with bumped fees every `resubmitAfterBlocks` blocks
+   * @param bundle entries of the bundle
+   * @param userOpHashes hashes of the entries, in the same order
+   * @param tx submitted transaction
+   */
+  async track(
+    bundle: MempoolEntry[],
+    userOpHashes: string[],
+    tx: providers.TransactionResponse
+  ): Promise<void> {
+    const blockNumber = await this.provider.getBlockNumber();
+    const entry: IBundleEntry = {
+      chainId: this.chainId,
+      transactionHash: tx.hash,
+      entryPoint: bundle[0]!.entryPoint,
+      signer: tx.from,
+      nonce: tx.nonce,
+      status: BundleStatus.PENDING,
+      entries: bundle.map((entry) => entry.serialize()),
+      userOpHashes,
+      to: tx.to!,
+      data: tx.data,
+      gasLimit: hexValue(tx.gasLimit),
+      maxFeePerGas: this.toHex(tx.maxFeePerGas),
+      maxPriorityFeePerGas: this.toHex(tx.maxPriorityFeePerGas),
+      gasPrice: tx.maxFeePerGas == null ? this.toHex(tx.gasPrice) : undefined,
+      submittedAt: Date.now(),
+      submittedBlock: blockNumber,
+      lastSubmittedBlock: blockNumber,
+      replacedTransactions: [],
+    };
+    await this.mutex.runExclusive(async () => {
+      await this.save(entry);
+      await this.indexUserOps(entry);
+      const pending = await this.fetchPendingKeys();
+      pending.push(tx.hash);
+      await this.db.put(this.PENDING_COLL_KEY, pending);
+    });
+  }
+
+  async getBundle(transactionHash: string): Promise<IBundleEntry | null> {
+    return await this.db
+      .get<IBundleEntry>(this.getKey(transactionHash))
+      .catch(() => null);
+  }
+
+  /**
+   * Returns the latest transaction of the bundle including the user op, or null if it was never bundled
+   * Replaced transactions are followed up to their replacement
+   * @param userOpHash
+   */
+  async getBundleByUserOpHash(
+    userOpHash: string
+  ): Promise<IBundleEntry | null> {
+    const transactionHash = await this.db
+      .get<string>(this.getUserOpKey(userOpHash))
+      .catch(() => null);
+    let bundle = transactionHash ? await this.getBundle(transactionHash) : null;
+    while (bundle?.replacedBy) {
+      const replacement = await this.getBundle(bundle.replacedBy);
+      if (!replacement) {
+        break;
+      }
+      bundle = replacement;
+    }
+    return bundle;
+  }
+
+  async getPendingBundles(): Promise<IBundleEntry[]> {
+    const keys = await this.fetchPendingKeys();
+    return await this.db
+      .getMany<IBundleEntry>(keys.map((hash) => this.getKey(hash)))
+      .catch(() => []);
+  }
+
+  /**
+   * Follows the mined bundles until they are confirmed, and settles or resubmits the pending ones
+   */
+  async checkPendingBundles(): Promise<void> {
+    await this.mutex.runExclusive(async () => {
+      await this.checkMinedBundles();
+      const bundles = await this.getPendingBundles();
+      if (!bundles.length) {
+        return;
+      }
+      const stillPending: string[] = [];
+      for (const bundle of bundles) {
+        try {
+          const pendingHash = await this.checkBundle(bundle);
+          if (pendingHash) {
+            stillPending.push(pendingHash);
+          }
+        } catch (err) {
+          this.logger.error(
+            err,
+            `Failed to check bundle ${bundle.transactionHash}`
+          );
+          stillPending.push(bundle.transactionHash);
+        }
+      }
+      await this.db.put(this.PENDING_COLL_KEY, stillPending);
+    });
+  }
+
+  // INTERNAL METHODS
+
+  /**
+   * Follows mined bundles until `confirmationDepth` blocks are mined on top of them,
+   * their ops are then removed from the mempool
+   */
+  private async checkMinedBundles(): Promise<void> {
+    const hashes = await this.fetchConfirmingKeys();
+    if (!hashes.length) {
+      return;
+    }
+    const blockNumber = await this.provider.getBlockNumber();
+    const stillConfirming: string[] = [];
+    for (const hash of hashes) {
+      const bundle = await this.getBundle(hash);
+      if (!bundle || bundle.blockNumber == null) {
+        continue;
+      }
+      try {
+        if (!(await this.checkConfirmations(bundle, blockNumber))) {
+          stillConfirming.push(hash);
+        }
+      } catch (err) {
+        this.logger.error(err, `Failed to check bundle ${hash} confirmations`);
+        stillConfirming.push(hash);
+      }
+    }
+    await this.db.put(this.CONFIRMING_COLL_KEY, stillConfirming);
+  }
+
+  /**
+   * Detects a reorg of the block of a mined bundle by comparing block hashes
+   * A bundle which isn't mined anymore is tracked as pending again, its transaction may be mined again
+   * Entities of the included ops are credited once the bundle is confirmed
+   * Returns true once the bundle is settled: confirmed, reverted or pending again
+   * @param bundle
+   * @param blockNumber current block number
+   */
+  private async checkConfirmations(
+    bundle: IBundleEntry,
+    blockNumber: number
+  ): Promise<boolean> {
+    const block = await this.provider.getBlock(bundle.blockNumber!);
+    if (block?.hash !== bundle.blockHash) {
+      const receipt = await this.fetchReceipt(bundle);
+      if (!receipt) {
+        this.logger.error(
+          `Bundle ${bundle.transactionHash} reorged out of block ${bundle.blockNumber}`
+        );
+        await this.onReorged(bundle, blockNumber);
+        return true;
+      }
+      // mined again in another block
+      if (receipt.status === 0) {
+        this.logger.error(`Bundle ${bundle.transactionHash} reverted`);
+        await this.requeue(bundle.entries);
+        await this.updateStatus(bundle, BundleStatus.REVERTED, receipt);
+        return true;
+      }
+      await this.updateStatus(bundle, BundleStatus.MINED, receipt);
+      return false;
+    }
+    if (
+      blockNumber - bundle.blockNumber! <
+      this.networkConfig.confirmationDepth
+    ) {
+      return false;
+    }
+    const receipt = await this.fetchReceipt(bundle);
+    if (!receipt) {
+      return false;
+    }
+    await this.onBundleConfirmed(bundle, receipt);
+    await this.mempoolService.removeSubmitted(bundle.entries);
+    return true;
+  }
+
+  /**
+   * Tracks a bundle reorged out of its block as pending, the nonce checks of `checkBundle` tell
+   * whether it is mined again, dropped or must be resubmitted
+   * @param bundle
+   * @param blockNumber current block number
+   */
+  private async onReorged(
+    bundle: IBundleEntry,
+    blockNumber: number
+  ): Promise<void> {
+    delete bundle.blockNumber;
+    delete bundle.blockHash;
+    bundle.lastSubmittedBlock = blockNumber;
+    await this.updateStatus(bundle, BundleStatus.PENDING);
+    const pending = await this.fetchPendingKeys();
+    pending.push(bundle.transactionHash);
+    await this.db.put(this.PENDING_COLL_KEY, pending);
+  }
+
+  /**
+   * Checks the outcome of a pending bundle, resubmitting it if it got stuck
+   * Returns the hash of the transaction to keep tracking, or null if the bundle is settled
+   * @param bundle
+   */
+  private async checkBundle(bundle: IBundleEntry): Promise<string | null> {
+    const receipt = await this.fetchReceipt(bundle);
+    if (receipt) {
+      await this.onReceipt(bundle, receipt);
+      return null;
+    }
+    const cancelReceipt = await this.fetchCancelReceipt(bundle);
+    if (cancelReceipt) {
+      await this.onCancelled(bundle);
+      return null;
+    }
+
+    const nonce = await this.provider.getTransactionCount(
+      bundle.signer,
+      "latest"
+    );
+    // the nonce was consumed by another transaction
+    if (nonce > bundle.nonce) {
+      // the bundle might have been mined right after the first check
+      const lateReceipt = await this.fetchReceipt(bundle);
+      if (lateReceipt) {
+        await this.onReceipt(bundle, lateReceipt);
+        return null;
+      }
+      if (await this.fetchCancelReceipt(bundle)) {
+        await this.onCancelled(bundle);
+        return null;
+      }
+      this.logger.error(`Bundle ${bundle.transactionHash} dropped`);
+      await this.requeue(bundle.entries);
+      await this.updateStatus(bundle, BundleStatus.DROPPED);
+      return null;
+    }
+
+    const blockNumber = await this.provider.getBlockNumber();
+    if (
+      blockNumber - bundle.lastSubmittedBlock <
+      this.networkConfig.resubmitAfterBlocks
+    ) {
+      return bundle.transactionHash;
+    }
+    return await this.resubmit(bundle, blockNumber);
+  }
+
+  /**
+   * Replaces a stuck bundle with a fee-bumped transaction using the same nonce
+   * If some ops became invalid (or the bundle is stuck for too long), the bundle is cancelled
+   * with a zero-value self transfer. The bundle stays pending until the nonce is used,
+   * its valid ops are put back into the mempool only if the cancel transaction wins
+   * @param bundle
+   * @param blockNumber current block number
+   */
+  private async resubmit(
+    bundle: IBundleEntry,
+    blockNumber: number
+  ): Promise<string | null> {
+    const relayer = await this.relayerService.getRelayer(bundle.signer);
+    if (!relayer) {
+      this.logger.error(
+        `Relayer ${bundle.signer} of bundle ${bundle.transactionHash} is not configured anymore`
+      );
+      return bundle.transactionHash;
+    }
+    const signer = relayer.signer;
+    const fees = await this.getBumpedFees(bundle);
+
+    if (
+      bundle.cancelTransactions?.length ||
+      blockNumber - bundle.submittedBlock >
+        this.networkConfig.cancelAfterBlocks ||
+      (await this.revalidate(bundle.entries)).length < bundle.entries.length
+    ) {
+      const tx = await signer.sendTransaction({
+        to: bundle.signer,
+        value: 0,
+        nonce: bundle.nonce,
+        gasLimit: 21000,
+        ...fees,
+      });
+      this.logger.info(
+        `Cancelling bundle ${bundle.transactionHash} with ${tx.hash}`
+      );
+      // next cancel transactions are bumped over this one
+      Object.assign(bundle, fees);
+      bundle.lastSubmittedBlock = blockNumber;
+      bundle.cancelTransactions = [
+        ...(bundle.cancelTransactions ?? []),
+        tx.hash,
+      ];
+      await this.save(bundle);
+      return bundle.transactionHash;
+    }
+
+    const tx = await signer.sendTransaction({
+      to: bundle.to,
+      data: bundle.data,
+      nonce: bundle.nonce,
+      gasLimit: bundle.gasLimit,
+      ...fees,
+    });
+    this.logger.info(
+      `Replaced bundle ${bundle.transactionHash} with ${tx.hash}`
+    );
+    const replacement: IBundleEntry = {
+      ...bundle,
+      ...fees,
+      transactionHash: tx.hash,
+      lastSubmittedBlock: blockNumber,
+      replacedTransactions: [
+        ...bundle.replacedTransactions,
+        bundle.transactionHash,
+      ],
+    };
+    await this.save(replacement);
+    await this.indexUserOps(replacement);
+    bundle.replacedBy = tx.hash;
+    await this.updateStatus(bundle, BundleStatus.REPLACED);
+    return tx.hash;
+  }
+
+  /**
+   * Fees of a replacement transaction: bumped by `feeBumpPercent`, and at least the current market fees
+   * @param bundle
+   */
+  private async getBumpedFees(bundle: IBundleEntry): Promise<{
+    maxFeePerGas?: string;
+    maxPriorityFeePerGas?: string;
+    gasPrice?: string;
+  }> {
+    const feeData = await this.feeOracle.getFees();
+    const bump = (value: BigNumberish, market?: BigNumber): string => {
+      const bumped = BigNumber.from(value)
+        .mul(100 + this.networkConfig.feeBumpPercent)
+        .div(100);
+      return hexValue(market && market.gt(bumped) ? market : bumped);
+    };
+    if (bundle.maxFeePerGas != null && bundle.maxPriorityFeePerGas != null) {
+      const market = feeData.mode === "eip1559" ? feeData : undefined;
+      return {
+        maxFeePerGas: bump(bundle.maxFeePerGas, market?.maxFeePerGas),
+        maxPriorityFeePerGas: bump(
+          bundle.maxPriorityFeePerGas,
+          market?.maxPriorityFeePerGas
+        ),
+      };
+    }
+    return {
+      gasPrice: bump(
+        bundle.gasPrice ?? 0,
+        feeData.mode === "legacy" ? feeData.gasPrice : undefined
+      ),
+    };
+  }
+
+  /**
+   * Returns the entries which still pass the validation
+   * A later op of a sender can't be simulated before its predecessor is executed: only the first op
+   * of each sender is simulated, the later ones are kept if it passes and dropped with it otherwise
+   * @param entries entries of the bundle, in bundle order
+   */
+  private async revalidate(
+    entries: MempoolEntrySerialized[]
+  ): Promise<MempoolEntrySerialized[]> {
+    const valid: MempoolEntrySerialized[] = [];
+    // whether the first op of each sender passed
+    const senders = new Map<string, boolean>();
+    for (const entry of entries) {
+      const sender = entry.userOp.sender.toLowerCase();
+      const firstOpValid = senders.get(sender);
+      if (firstOpValid != null) {
+        if (firstOpValid) {
+          valid.push(entry);
+        }
+        continue;
+      }
+      try {
+        await this.userOpValidationService.simulateCompleteValidation(
+          entry.userOp,
+          entry.entryPoint,
+          entry.referencedContractsHash
+        );
+        valid.push(entry);
+        senders.set(sender, true);
+      } catch (err: any) {
+        this.logger.debug(
+          `Dropping ops of ${entry.userOp.sender} from bundle: ${err.message}`
+        );
+        senders.set(sender, false);
+      }
+    }
+    return valid;
+  }
+
+  /**
+   * Puts the still valid ops of an unmined bundle back into the mempool, and removes the others
+   * @param entries
+   */
+  private async requeue(entries: MempoolEntrySerialized[]): Promise<void> {
+    const valid = await this.revalidate(entries);
+    await this.mempoolService.reinsert(valid);
+    await this.mempoolService.removeSubmitted(entries);
+  }
+
+  /**
+   * Puts the still valid ops of a bundle back into the mempool once its cancel transaction is mined
+   * @param bundle
+   */
+  private async onCancelled(bundle: IBundleEntry): Promise<void> {
+    this.logger.info(`Bundle ${bundle.transactionHash} cancelled`);
+    await this.requeue(bundle.entries);
+    await this.updateStatus(bundle, BundleStatus.CANCELLED);
+  }
+
+  /**
+   * Looks for a receipt of the cancel transactions of the bundle
+   * @param bundle
+   */
+  private async fetchCancelReceipt(
+    bundle: IBundleEntry
+  ): Promise<providers.TransactionReceipt | null> {
+    for (const hash of bundle.cancelTransactions ?? []) {
+      const receipt = await this.provider.getTransactionReceipt(hash);
+      if (receipt) {
+        return receipt;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Looks for a receipt of the bundle transaction or any transaction it replaced
+   * @param bundle
+   */
+  private async fetchReceipt(
+    bundle: IBundleEntry
+  ): Promise<providers.TransactionReceipt | null> {
+    for (const hash of [
+      bundle.transactionHash,
+      ...bundle.replacedTransactions,
+    ]) {
+      const receipt = await this.provider.getTransactionReceipt(hash);
+      if (receipt) {
+        return receipt;
+      }
+    }
+    return null;
+  }
+
+  private async onReceipt(
+    bundle: IBundleEntry,
+    receipt: providers.TransactionReceipt
+  ): Promise<BundleStatus> {
+    if (receipt.status === 0) {
+      this.logger.error(`Bundle ${bundle.transactionHash} reverted`);
+      await this.requeue(bundle.entries);
+      return await this.updateStatus(bundle, BundleStatus.REVERTED, receipt);
+    }
+    await this.onBundleMined(bundle, receipt);
+    const confirming = await this.fetchConfirmingKeys();
+    confirming.push(bundle.transactionHash);
+    await this.db.put(this.CONFIRMING_COLL_KEY, confirming);
+    return await this.updateStatus(bundle, BundleStatus.MINED, receipt);
+  }
+
+  /**
+   * Notifies receipt subscribers of the included user ops
+   * @param bundle
+   * @param receipt
+   */
+  private async onBundleMined(
+    bundle: IBundleEntry,
+    receipt: providers.TransactionReceipt
+  ): Promise<void> {
+    const events = this.parseUserOperationEvents(bundle.entryPoint, receipt);
+    for (const event of events) {
+      this.subscriptionService.notifyReceipt({
+        ...event,
+        entryPoint: bundle.entryPoint,
+        transactionHash: receipt.transactionHash,
+        blockHash: receipt.blockHash,
+        blockNumber: receipt.blockNumber,
+      });
+    }
+    this.logger.debug(
+      `Bundle ${bundle.transactionHash} mined, ${events.length} user ops included`
+    );
+  }
+
+  /**
+   * Credits every entity of the included user ops, once the bundle can't be reorged out anymore
+   * @param bundle
+   * @param receipt
+   */
+  private async onBundleConfirmed(
+    bundle: IBundleEntry,
+    receipt: providers.TransactionReceipt
+  ): Promise<void> {
+    const events = this.parseUserOperationEvents(bundle.entryPoint, receipt);
+    for (const { userOpHash, sender, paymaster, nonce } of events) {
+      const index = bundle.userOpHashes.findIndex(
+        (hash) => hash.toLowerCase() === userOpHash.toLowerCase()
+      );
+      const entry =
+        bundle.entries[index] ??
+        bundle.entries.find(
+          ({ userOp }) =>
+            userOp.sender.toLowerCase() === sender.toLowerCase() &&
+            ethers.BigNumber.from(userOp.nonce).eq(nonce)
+        );
+
+      // reputation entries are keyed by lowercase addresses
+      const entities = new Set<string>([sender.toLowerCase()]);
+      if (paymaster !== ethers.constants.AddressZero) {
+        entities.add(paymaster.toLowerCase());
+      }
+      const factory = getAddr(entry?.userOp.initCode);
+      if (factory) {
+        entities.add(factory);
+      }
+      if (entry?.aggregator) {
+        entities.add(entry.aggregator.toLowerCase());
+      }
+      for (const entity of entities) {
+        await this.reputationService.updateIncludedStatus(entity);
+      }
+    }
+  }
+
+  /**
+   * Decodes the UserOperationEvent logs emitted by the entry point in the transaction
+   * @param entryPoint
+   * @param receipt
+   */
+  private parseUserOperationEvents(
+    entryPoint: string,
+    receipt: providers.TransactionReceipt
+  ): UserOperationEventEventObject[] {
+    const entryPointInterface = EntryPoint__factory.createInterface();
+    const topic = entryPointInterface.getEventTopic("UserOperationEvent");
+    return receipt.logs
+      .filter(
+        (log) =>
+          log.address.toLowerCase() === entryPoint.toLowerCase() &&
+          log.topics[0] === topic
+      )
+      .map((log) => {
+        const {
+          userOpHash,
+          sender,
+          paymaster,
+          nonce,
+          success,
+          actualGasCost,
+          actualGasUsed,
+        } = entryPointInterface.parseLog(log).args;
+        return {
+          userOpHash,
+          sender,
+          paymaster,
+          nonce,
+          success,
+          actualGasCost,
+          actualGasUsed,
+        };
+      });
+  }
+
+  private async updateStatus(
+    bundle: IBundleEntry,
+    status: BundleStatus,
+    receipt?: providers.TransactionReceipt
+  ): Promise<BundleStatus> {
+    bundle.status = status;
+    if (receipt) {
+      bundle.blockNumber = receipt.blockNumber;
+      bundle.blockHash = receipt.blockHash;
+    }
+    await this.save(bundle);
+    return status;
+  }
+
+  private toHex(value?: BigNumber | null): string | undefined {
+    return value == null ? undefined : hexValue(value);
+  }
+
+  private async fetchPendingKeys(): Promise<string[]> {
+    return await this.db.get<string[]>(this.PENDING_COLL_KEY).catch(() => []);
+  }
+
+  private async fetchConfirmingKeys(): Promise<string[]> {
+    return await this.db
+      .get<string[]>(this.CONFIRMING_COLL_KEY)
+      .catch(() => []);
+  }
+
+  private async save(bundle: IBundleEntry): Promise<void> {
+    await this.db.put(this.getKey(bundle.transactionHash), bundle);
+  }
+
+  private async indexUserOps(bundle: IBundleEntry): Promise<void> {
+    for (const userOpHash of bundle.userOpHashes) {
+      await this.db.put(this.getUserOpKey(userOpHash), bundle.transactionHash);
+    }
+  }
+
+  private getUserOpKey(userOpHash: string): string {
+    return `${this.BUNDLE_COLL_KEY}:USEROP:${userOpHash.toLowerCase()}`;
+  }
+
+  private getKey(transactionHash: string): string {
+    return `${this.BUNDLE_COLL_KEY}:${transactionHash}`;
+  }
+}
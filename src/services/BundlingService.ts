@@ -1,14 +1,21 @@
-import { BigNumber, ethers, providers } from "ethers";
+import { BigNumber, BigNumberish, ethers, providers } from "ethers";
 import { NetworkName } from "../types/networks";
-import { EntryPoint__factory } from "../types/executor/contracts";
+import {
+  EntryPoint__factory,
+  IAggregator__factory,
+} from "../types/executor/contracts";
 import { EntryPoint } from "../types/executor/contracts";
+import {
+  IEntryPoint,
+  UserOperationStruct,
+} from "../types/executor/contracts/EntryPoint";
 import { Mutex } from "async-mutex";
 import { SendBundleReturn } from "../types/executor";
 import { IMulticall3__factory } from "../types/executor/contracts/factories/IMulticall3__factory";
-import { getAddr } from "../utils";
+import { getAddr, getUserOpGasPrice } from "../utils";
 import { MempoolEntry } from "../models/MempoolEntry";
 import { ReputationStatus } from "../models/EntitiesInterface";
-import { Config } from "../common/config";
+import { BundlingTriggers, Config } from "../common/config";
 import { BundlingMode, Logger } from "../models/ExecutorInterface";
 import { ReputationService } from "./ReputationService";
 import {
@@ -16,13 +23,36 @@ import {
   UserOpValidationService,
 } from "./UserOpValidation";
 import { MempoolService } from "./MempoolService";
+import { SubscriptionService } from "./SubscriptionService";
+import { BundleTrackerService } from "./BundleTrackerService";
+import { GasFees, IFeeOracle } from "./FeeOracle";
+import { Relayer, RelayerService } from "./RelayerService";
+import { BalanceWatchdogService } from "./BalanceWatchdogService";
+import { BlockWatcherService } from "./BlockWatcherService";
+
+type BundleFees = {
+  maxFeePerGas?: BigNumber;
+  maxPriorityFeePerGas?: BigNumber;
+  gasPrice?: BigNumber;
+};
+
+interface FailedOp {
+  index: number;
+  reason: string;
+}
 
 export class BundlingService {
   private mutex: Mutex;
+  // ops of the bundles being sent
+  private reservedEntries = new Set<string>();
   private bundlingMode: BundlingMode;
   private autoBundlingInterval: number;
   private autoBundlingCron?: NodeJS.Timer;
-  private maxMempoolSize: number;
+  private bundlingTriggers: BundlingTriggers;
+  private unsubscribeBlocks?: () => void;
+  private blockBundlingTimeout?: NodeJS.Timeout;
+  // bundling timers and block subscriptions only run once started
+  private running = false;
 
   constructor(
     private network: NetworkName,
@@ -30,6 +60,12 @@ export class BundlingService {
     private mempoolService: MempoolService,
     private userOpValidationService: UserOpValidationService,
     private reputationService: ReputationService,
+    private subscriptionService: SubscriptionService,
+    private bundleTrackerService: BundleTrackerService,
+    private relayerService: RelayerService,
+    private balanceWatchdogService: BalanceWatchdogService,
+    private blockWatcherService: BlockWatcherService,
+    private feeOracle: IFeeOracle,
     private config: Config,
     private logger: Logger
   ) {
@@ -37,23 +73,40 @@ export class BundlingService {
 
     this.bundlingMode = "auto";
     this.autoBundlingInterval = 15 * 1000;
-    this.maxMempoolSize = 2;
+    this.bundlingTriggers = {
+      ...this.config.getNetworkConfig(this.network)!.bundlingTriggers,
+    };
+  }
+
+  /**
+   * Starts bundling in the current bundling mode
+   */
+  start(): void {
+    this.running = true;
     this.restartCron();
   }
 
+  stop(): void {
+    this.running = false;
+    this.restartCron();
+  }
+
+  /**
+   * Builds and sends a bundle with the best available relayer
+   * Bundles are built one at a time, but relayers send them in parallel
+   */
   async sendNextBundle(): Promise<SendBundleReturn | null> {
-    return await this.mutex.runExclusive(async () => {
-      this.logger.debug("sendNextBundle");
-      const bundle = await this.createBundle();
-      if (bundle.length == 0) {
-        this.logger.debug("sendNextBundle - no bundle");
-        return null;
-      }
-      return await this.sendBundle(bundle);
-    });
+    const relayer = await this.acquireRelayer();
+    if (!relayer) {
+      return null;
+    }
+    return await this.sendNextBundleWith(relayer);
   }
 
-  async sendBundle(bundle: MempoolEntry[]): Promise<SendBundleReturn | null> {
+  async sendBundle(
+    bundle: MempoolEntry[],
+    relayer: Relayer
+  ): Promise<SendBundleReturn | null> {
     if (!bundle.length) {
       return null;
     }
@@ -62,64 +115,128 @@ export class BundlingService {
       entryPoint,
       this.provider
     );
-    const wallet = this.config.getRelayer(this.network)!;
-    const beneficiary = await this.selectBeneficiary();
+    const beneficiary = await this.selectBeneficiary(relayer);
     try {
-      const txRequest = entryPointContract.interface.encodeFunctionData(
-        "handleOps",
-        [bundle.map((entry) => entry.userOp), beneficiary]
+      const simulated = await this.simulateBundle(
+        entryPointContract,
+        bundle,
+        beneficiary,
+        relayer.address
       );
-      const tx = await wallet.sendTransaction({
-        to: entryPoint,
-        data: txRequest,
-      });
-      this.logger.debug(`Sent new bundle ${tx.hash}`);
-
-      for (const entry of bundle) {
-        await this.mempoolService.remove(entry);
+      if (!simulated) {
+        return null;
+      }
+      bundle = simulated.bundle;
+      const nonce = await this.relayerService.getNonce(relayer);
+      let tx: providers.TransactionResponse;
+      try {
+        tx = await relayer.signer.sendTransaction({
+          to: entryPoint,
+          data: simulated.data,
+          gasLimit: simulated.gasLimit,
+          nonce,
+          ...simulated.fees,
+        });
+      } catch (err) {
+        // the local nonce might be out of sync with the node
+        this.relayerService.resetNonce(relayer);
+        throw err;
       }
+      this.relayerService.incrementNonce(relayer, nonce);
+      this.logger.debug(`Sent new bundle ${tx.hash} from ${relayer.address}`);
+
+      // entries leave the mempool once the bundle is confirmed
+      await this.mempoolService.markSubmitted(bundle, tx.hash);
 
       const userOpHashes = await this.getUserOpHashes(
         entryPointContract,
         bundle
       );
       this.logger.debug(`User op hashes ${userOpHashes}`);
+      this.subscriptionService.notifyBundledUserOps(
+        bundle,
+        userOpHashes,
+        tx.hash
+      );
+      await this.bundleTrackerService.track(bundle, userOpHashes, tx);
       return {
         transactionHash: tx.hash,
         userOpHashes: userOpHashes,
       };
     } catch (err: any) {
-      if (err.errorName !== "FailedOp") {
+      const failedOp = this.parseFailedOp(entryPointContract, err);
+      if (!failedOp) {
         this.logger.error(`Failed handleOps, but non-Failedop error ${err}`);
         return null;
       }
-      const { index, paymaster, reason } = err.errorArgs;
-      const entry = bundle[index];
-      if (paymaster !== ethers.constants.AddressZero) {
-        await this.reputationService.crashedHandleOps(paymaster);
-      } else if (typeof reason === "string" && reason.startsWith("AA1")) {
-        const factory = getAddr(entry?.userOp.initCode);
-        if (factory) {
-          await this.reputationService.crashedHandleOps(factory);
-        }
-      } else {
-        if (entry) {
-          await this.mempoolService.remove(entry);
-          this.logger.error(`Failed handleOps sender= ${entry.userOp.sender}`);
-        }
-      }
+      await this.handleFailedOp(bundle, failedOp);
       return null;
     }
   }
 
   async createBundle(): Promise<MempoolEntry[]> {
-    const entries = await this.mempoolService.getSortedOps();
+    const fees = await this.feeOracle.getFees();
+    const entries = await this.mempoolService.getSortedOps(fees.baseFee);
     const bundle: MempoolEntry[] = [];
+    const networkConfig = this.config.getNetworkConfig(this.network)!;
+    const maxBundleGas = await this.getMaxBundleGas(networkConfig.maxBundleGas);
+    let bundleGas = BigNumber.from(0);
 
     const paymasterDeposit: { [key: string]: BigNumber } = {};
     const stakedEntityCount: { [key: string]: number } = {};
-    const senders = new Set<string>();
+    // nonce of the last included op of each sender
+    const senderNonces = new Map<string, BigNumber>();
+    const stakedSenders = new Set<string>();
+    // previous op of each sender, ops of a sender come in nonce order
+    const previousOps = new Map<string, MempoolEntry>();
     for (const entry of entries) {
+      if (bundle.length >= networkConfig.maxBundleSize) {
+        break;
+      }
+      const sender = entry.userOp.sender.toLowerCase();
+      const previousOp = previousOps.get(sender);
+      previousOps.set(sender, entry);
+      const includedNonce = senderNonces.get(sender);
+      if (previousOp && !includedNonce?.eq(previousOp.userOp.nonce)) {
+        this.logger.debug("skipping op whose predecessor is not included", {
+          metadata: {
+            senders: entry.userOp.sender,
+            nonce: entry.userOp.nonce,
+          },
+        });
+        continue;
+      }
+      if (includedNonce && !stakedSenders.has(sender)) {
+        this.logger.debug("skipping already included unstaked sender", {
+          metadata: {
+            senders: entry.userOp.sender,
+            nonce: entry.userOp.nonce,
+          },
+        });
+        continue;
+      }
+      if (includedNonce && !includedNonce.add(1).eq(entry.userOp.nonce)) {
+        this.logger.debug("skipping op after a nonce gap", {
+          metadata: {
+            senders: entry.userOp.sender,
+            nonce: entry.userOp.nonce,
+          },
+        });
+        continue;
+      }
+      if (this.reservedEntries.has(this.getEntryKey(entry))) {
+        // already being sent by another relayer
+        continue;
+      }
+      if (!this.coversNetworkFees(entry.userOp, fees)) {
+        this.logger.debug("skipping underpriced op", {
+          metadata: {
+            senders: entry.userOp.sender,
+            nonce: entry.userOp.nonce,
+          },
+        });
+        continue;
+      }
       const paymaster = getAddr(entry.userOp.paymasterAndData);
       const factory = getAddr(entry.userOp.initCode);
 
@@ -165,8 +282,29 @@ export class BundlingService {
         }
       }
 
-      if (senders.has(entry.userOp.sender)) {
-        this.logger.debug("skipping already included sender", {
+      if (entry.aggregator) {
+        const aggregatorStatus = await this.reputationService.getStatus(
+          entry.aggregator
+        );
+        if (aggregatorStatus === ReputationStatus.BANNED) {
+          await this.mempoolService.remove(entry);
+          continue;
+        } else if (aggregatorStatus === ReputationStatus.THROTTLED) {
+          this.logger.debug("skipping throttled aggregator", {
+            metadata: {
+              senders: entry.userOp.sender,
+              nonce: entry.userOp.nonce,
+              aggregator: entry.aggregator,
+            },
+          });
+          continue;
+        }
+      }
+
+      // a smaller op might still fit in the bundle
+      const opGas = this.getUserOpGasLimit(entry.userOp);
+      if (bundleGas.add(opGas).gt(maxBundleGas)) {
+        this.logger.debug("skipping op exceeding bundle gas limit", {
           metadata: {
             senders: entry.userOp.sender,
             nonce: entry.userOp.nonce,
@@ -174,18 +312,29 @@ export class BundlingService {
         });
         continue;
       }
-      let validationResult: UserOpValidationResult;
-      try {
-        validationResult =
-          await this.userOpValidationService.simulateCompleteValidation(
-            entry.userOp,
-            entry.entryPoint,
-            entry.hash
-          );
-      } catch (e: any) {
-        this.logger.debug(`failed 2nd validation: ${e.message}`);
-        await this.mempoolService.remove(entry);
-        continue;
+      let prefund: BigNumberish = entry.prefund;
+      // a later op of a sender can't be simulated before its predecessor is executed,
+      // it is checked by the simulation of the whole bundle
+      if (!includedNonce) {
+        let validationResult: UserOpValidationResult;
+        try {
+          validationResult =
+            await this.userOpValidationService.simulateCompleteValidation(
+              entry.userOp,
+              entry.entryPoint,
+              entry.referencedContractsHash
+            );
+        } catch (e: any) {
+          this.logger.debug(`failed 2nd validation: ${e.message}`);
+          await this.mempoolService.remove(entry);
+          continue;
+        }
+        prefund = validationResult.returnInfo.prefund;
+        if (
+          await this.reputationService.isStaked(validationResult.senderInfo)
+        ) {
+          stakedSenders.add(sender);
+        }
       }
       const entryPointContract = EntryPoint__factory.connect(
         entry.entryPoint,
@@ -197,25 +346,26 @@ export class BundlingService {
             paymaster
           );
         }
-        if (
-          paymasterDeposit[paymaster]?.lt(validationResult.returnInfo.prefund)
-        ) {
+        if (paymasterDeposit[paymaster]?.lt(prefund)) {
           // not enough balance in paymaster to pay for all UserOps
           // (but it passed validation, so it can sponsor them separately
           continue;
         }
         stakedEntityCount[paymaster] = (stakedEntityCount[paymaster] ?? 0) + 1;
         paymasterDeposit[paymaster] = BigNumber.from(
-          paymasterDeposit[paymaster]?.sub(validationResult.returnInfo.prefund)
+          paymasterDeposit[paymaster]?.sub(prefund)
         );
       }
       if (factory) {
         stakedEntityCount[factory] = (stakedEntityCount[factory] ?? 0) + 1;
       }
-      senders.add(entry.userOp.sender);
+      senderNonces.set(sender, BigNumber.from(entry.userOp.nonce));
+      bundleGas = bundleGas.add(opGas);
       bundle.push(entry);
     }
-    return bundle;
+    return await this.validateAggregatedSignatures(
+      this.sortByAggregator(bundle)
+    );
   }
 
   setBundlingMode(mode: BundlingMode): void {
@@ -231,15 +381,97 @@ export class BundlingService {
   }
 
   setMempoolMaxSize(size: number): void {
-    this.maxMempoolSize = size;
+    this.setBundlingTriggers({ ...this.bundlingTriggers, mempoolSize: size });
+  }
+
+  /**
+   * Replaces the conditions firing a bundle in auto mode, unset triggers are disabled
+   * @param triggers
+   */
+  setBundlingTriggers(triggers: BundlingTriggers): void {
+    this.bundlingTriggers = { ...triggers };
     this.restartCron();
   }
 
+  getBundlingTriggers(): BundlingTriggers {
+    return { ...this.bundlingTriggers };
+  }
+
   // INTERNAL METHOD
 
+  /**
+   * Builds and sends a bundle with the given relayer, then releases it
+   * @param relayer
+   */
+  private async sendNextBundleWith(
+    relayer: Relayer
+  ): Promise<SendBundleReturn | null> {
+    let bundle: MempoolEntry[] = [];
+    try {
+      bundle = await this.mutex.runExclusive(async () => {
+        this.logger.debug("sendNextBundle");
+        const bundle = await this.createBundle();
+        // other relayers must not pick the same ops
+        bundle.forEach((entry) =>
+          this.reservedEntries.add(this.getEntryKey(entry))
+        );
+        return bundle;
+      });
+      if (bundle.length == 0) {
+        this.logger.debug("sendNextBundle - no bundle");
+        return null;
+      }
+      return await this.sendBundle(bundle, relayer);
+    } finally {
+      bundle.forEach((entry) =>
+        this.reservedEntries.delete(this.getEntryKey(entry))
+      );
+      this.relayerService.release(relayer);
+    }
+  }
+
+  /**
+   * Reserves a relayer able to pay for a bundle
+   * @param excludedRelayers addresses of relayers which must not be used
+   */
+  private async acquireRelayer(
+    excludedRelayers: string[] = []
+  ): Promise<Relayer | null> {
+    if (this.balanceWatchdogService.isPaused()) {
+      this.logger.debug("sendNextBundle - bundling paused, low balances");
+      return null;
+    }
+    const relayer = await this.relayerService.acquire(
+      this.balanceWatchdogService.getRequiredBalance(),
+      excludedRelayers
+    );
+    if (!relayer) {
+      this.logger.debug("sendNextBundle - no relayer available");
+    }
+    return relayer;
+  }
+
   private restartCron(): void {
     if (this.autoBundlingCron) {
       clearInterval(this.autoBundlingCron);
+      this.autoBundlingCron = undefined;
+    }
+    if (this.unsubscribeBlocks) {
+      this.unsubscribeBlocks();
+      this.unsubscribeBlocks = undefined;
+    }
+    if (this.blockBundlingTimeout) {
+      clearTimeout(this.blockBundlingTimeout);
+      this.blockBundlingTimeout = undefined;
+    }
+    if (!this.running) {
+      return;
+    }
+    if (this.bundlingMode === "block") {
+      this.unsubscribeBlocks = this.blockWatcherService.subscribe((block) =>
+        this.scheduleBlockBundling(block.number)
+      );
+      return;
     }
     if (this.bundlingMode !== "auto") {
       return;
@@ -247,26 +479,127 @@ export class BundlingService {
     this.autoBundlingCron = setInterval(() => {
       void this.tryBundle();
     }, this.autoBundlingInterval);
+    if (this.bundlingTriggers.onNewBlock) {
+      this.unsubscribeBlocks = this.blockWatcherService.subscribe(
+        () => void this.tryBundle(true)
+      );
+    }
+  }
+
+  /**
+   * Block mode: bundles `bundleSubmissionOffset` ms before the next block is expected
+   * A bundle not sent yet when a new block arrives is rescheduled for the new block
+   * @param blockNumber
+   */
+  private scheduleBlockBundling(blockNumber: number): void {
+    if (this.blockBundlingTimeout) {
+      clearTimeout(this.blockBundlingTimeout);
+    }
+    const { bundleSubmissionOffset } = this.config.getNetworkConfig(
+      this.network
+    )!;
+    const delay = Math.max(
+      0,
+      this.blockWatcherService.getNextBlockTime() -
+        bundleSubmissionOffset -
+        Date.now()
+    );
+    this.blockBundlingTimeout = setTimeout(() => {
+      this.blockBundlingTimeout = undefined;
+      void this.bundleForBlock(blockNumber);
+    }, delay);
   }
 
-  private async tryBundle(force = true): Promise<void> {
-    if (!force) {
-      const count = await this.mempoolService.count();
-      if (count < this.maxMempoolSize) {
+  /**
+   * Sends at most one bundle per relayer for the given block
+   * @param blockNumber
+   */
+  private async bundleForBlock(blockNumber: number): Promise<void> {
+    const usedRelayers: string[] = [];
+    try {
+      while (this.blockWatcherService.getLastBlock()?.number === blockNumber) {
+        if (!(await this.mempoolService.count())) {
+          return;
+        }
+        const relayer = await this.acquireRelayer(usedRelayers);
+        if (!relayer) {
+          return;
+        }
+        usedRelayers.push(relayer.address);
+        const result = await this.sendNextBundleWith(relayer);
+        if (!result) {
+          return;
+        }
+      }
+    } catch (err) {
+      this.logger.error(err, `Bundling failed for block ${blockNumber}`);
+    }
+  }
+
+  /**
+   * Sends a bundle if one of the bundling triggers fires
+   * @param newBlock true if called on a new block
+   */
+  private async tryBundle(newBlock = false): Promise<void> {
+    try {
+      const trigger = await this.checkTriggers(newBlock);
+      if (!trigger) {
         return;
       }
+      this.logger.debug(`Bundling triggered by ${trigger}`);
       await this.sendNextBundle();
+    } catch (err) {
+      this.logger.error(err, "Auto bundling failed");
     }
   }
 
-  private async selectBeneficiary(): Promise<string> {
-    const config = this.config.getNetworkConfig(this.network);
+  /**
+   * Returns the name of the first trigger that fires, or null
+   * @param newBlock
+   */
+  private async checkTriggers(newBlock: boolean): Promise<string | null> {
+    const { mempoolSize, mempoolGas, maxOpAge, onNewBlock } =
+      this.bundlingTriggers;
+    const entries = await this.mempoolService.getSortedOps();
+    if (!entries.length) {
+      return null;
+    }
+    if (onNewBlock && newBlock) {
+      return "onNewBlock";
+    }
+    if (mempoolSize != null && entries.length >= mempoolSize) {
+      return "mempoolSize";
+    }
+    if (mempoolGas != null) {
+      const gas = entries.reduce(
+        (sum, entry) => sum.add(this.getUserOpGasLimit(entry.userOp)),
+        BigNumber.from(0)
+      );
+      if (gas.gte(mempoolGas)) {
+        return "mempoolGas";
+      }
+    }
+    if (maxOpAge != null) {
+      const oldest = Math.min(...entries.map((entry) => entry.lastUpdatedTime));
+      if (Date.now() - oldest >= maxOpAge) {
+        return "maxOpAge";
+      }
+    }
+    return null;
+  }
+
+  private getEntryKey(entry: MempoolEntry): string {
+    return `${entry.userOp.sender}:${BigNumber.from(entry.userOp.nonce)}`;
+  }
+
+  private async selectBeneficiary(relayer: Relayer): Promise<string> {
     let beneficiary = this.config.getBeneficiary(this.network);
-    const signer = this.config.getRelayer(this.network);
-    const signerAddress = await signer!.getAddress();
-    const currentBalance = await this.provider.getBalance(signerAddress);
+    const signerAddress = relayer.address;
 
-    if (currentBalance.lte(config!.minSignerBalance) || !beneficiary) {
+    if (
+      this.balanceWatchdogService.isLowBalance(signerAddress) ||
+      !beneficiary
+    ) {
       beneficiary = signerAddress;
       this.logger.info(
         `low balance on ${signerAddress}. using it as beneficiary`
@@ -275,6 +608,322 @@ export class BundlingService {
     return beneficiary;
   }
 
+  /**
+   * Gas limit of a bundle: the configured max bundle gas, bounded by the block gas limit
+   * @param maxBundleGas
+   */
+  private async getMaxBundleGas(
+    maxBundleGas: BigNumberish
+  ): Promise<BigNumber> {
+    const block = await this.provider.getBlock("latest");
+    return block.gasLimit.lt(maxBundleGas)
+      ? block.gasLimit
+      : BigNumber.from(maxBundleGas);
+  }
+
+  /**
+   * Max amount of gas the op can use in handleOps
+   * (verification runs up to 3 times with a paymaster: validation, postOp and its revert)
+   * @param userOp
+   */
+  private getUserOpGasLimit(userOp: UserOperationStruct): BigNumber {
+    const multiplier = getAddr(userOp.paymasterAndData) ? 3 : 1;
+    return BigNumber.from(userOp.preVerificationGas)
+      .add(BigNumber.from(userOp.verificationGasLimit).mul(multiplier))
+      .add(userOp.callGasLimit);
+  }
+
+  /**
+   * Simulates handleOps of the bundle before sending it on chain
+   * Each op failing with FailedOp is dropped from the bundle (and penalized) and the rest is simulated again,
+   * until the bundle passes or comes out empty
+   * @param entryPointContract
+   * @param bundle
+   * @param beneficiary
+   * @param from address of the relayer
+   */
+  private async simulateBundle(
+    entryPointContract: EntryPoint,
+    bundle: MempoolEntry[],
+    beneficiary: string,
+    from: string
+  ): Promise<{
+    bundle: MempoolEntry[];
+    data: string;
+    gasLimit: BigNumber;
+    fees: BundleFees;
+  } | null> {
+    const networkFees = await this.feeOracle.getFees();
+    const fees = this.getBundleFees(networkFees);
+    const overrides = { from, ...fees };
+    // the fees might have risen since the bundle was built, underpriced ops (and the later ops
+    // of their sender) stay in the mempool
+    const underpricedSenders = new Set<string>();
+    bundle = bundle.filter(({ userOp }) => {
+      const sender = userOp.sender.toLowerCase();
+      if (
+        underpricedSenders.has(sender) ||
+        !this.coversNetworkFees(userOp, networkFees)
+      ) {
+        underpricedSenders.add(sender);
+        return false;
+      }
+      return true;
+    });
+    // FailedOp indexes follow the order of ops in handleAggregatedOps
+    bundle = this.sortByAggregator(bundle);
+    while (bundle.length > 0) {
+      const userOps = bundle.map((entry) => entry.userOp);
+      const userOpsPerAggregator = await this.getUserOpsPerAggregator(bundle);
+      try {
+        if (userOpsPerAggregator) {
+          await entryPointContract.callStatic.handleAggregatedOps(
+            userOpsPerAggregator,
+            beneficiary,
+            overrides
+          );
+        } else {
+          await entryPointContract.callStatic.handleOps(
+            userOps,
+            beneficiary,
+            overrides
+          );
+        }
+      } catch (err: any) {
+        const failedOp = this.parseFailedOp(entryPointContract, err);
+        if (!failedOp) {
+          this.logger.error(`Bundle simulation failed: ${err}`);
+          return null;
+        }
+        const failedSender =
+          bundle[failedOp.index]?.userOp.sender.toLowerCase();
+        await this.handleFailedOp(bundle, failedOp);
+        // later ops of the sender can't be executed without the failed one, they stay in the mempool
+        bundle = bundle.filter(
+          (entry, index) =>
+            index < failedOp.index ||
+            (index > failedOp.index &&
+              entry.userOp.sender.toLowerCase() !== failedSender)
+        );
+        continue;
+      }
+      if (userOpsPerAggregator) {
+        return {
+          bundle,
+          fees,
+          data: entryPointContract.interface.encodeFunctionData(
+            "handleAggregatedOps",
+            [userOpsPerAggregator, beneficiary]
+          ),
+          gasLimit: await entryPointContract.estimateGas.handleAggregatedOps(
+            userOpsPerAggregator,
+            beneficiary,
+            overrides
+          ),
+        };
+      }
+      return {
+        bundle,
+        fees,
+        data: entryPointContract.interface.encodeFunctionData("handleOps", [
+          userOps,
+          beneficiary,
+        ]),
+        gasLimit: await entryPointContract.estimateGas.handleOps(
+          userOps,
+          beneficiary,
+          overrides
+        ),
+      };
+    }
+    this.logger.debug("Bundle simulation - no valid ops left");
+    return null;
+  }
+
+  /**
+   * Moves ops using the same aggregator next to each other, ops without aggregator first
+   * @param bundle
+   */
+  private sortByAggregator(bundle: MempoolEntry[]): MempoolEntry[] {
+    const aggregators = Array.from(
+      new Set(bundle.map((entry) => entry.aggregator ?? ""))
+    ).sort();
+    return aggregators.flatMap((aggregator) =>
+      bundle.filter((entry) => (entry.aggregator ?? "") === aggregator)
+    );
+  }
+
+  /**
+   * Groups the ops of a bundle (sorted by aggregator) with their aggregated signature
+   * Returns null if no op uses an aggregator, in that case the bundle is sent with handleOps
+   * @param bundle
+   */
+  private async getUserOpsPerAggregator(
+    bundle: MempoolEntry[]
+  ): Promise<IEntryPoint.UserOpsPerAggregatorStruct[] | null> {
+    if (!bundle.some((entry) => entry.aggregator)) {
+      return null;
+    }
+    const userOpsPerAggregator: IEntryPoint.UserOpsPerAggregatorStruct[] = [];
+    for (const entry of bundle) {
+      const aggregator = entry.aggregator ?? ethers.constants.AddressZero;
+      const last = userOpsPerAggregator[userOpsPerAggregator.length - 1];
+      if (last && last.aggregator === aggregator) {
+        last.userOps.push(entry.userOp);
+      } else {
+        userOpsPerAggregator.push({
+          aggregator,
+          userOps: [entry.userOp],
+          signature: "0x",
+        });
+      }
+    }
+    for (const group of userOpsPerAggregator) {
+      if (group.aggregator === ethers.constants.AddressZero) {
+        continue;
+      }
+      group.signature = await IAggregator__factory.connect(
+        group.aggregator,
+        this.provider
+      ).aggregateSignatures(group.userOps);
+    }
+    return userOpsPerAggregator;
+  }
+
+  /**
+   * Aggregates and checks the signatures of every aggregator of the bundle
+   * Ops of an aggregator failing to do so are dropped from the bundle and the aggregator is penalized
+   * @param bundle
+   */
+  private async validateAggregatedSignatures(
+    bundle: MempoolEntry[]
+  ): Promise<MempoolEntry[]> {
+    const aggregators = new Set(
+      bundle
+        .map((entry) => entry.aggregator)
+        .filter((aggregator): aggregator is string => !!aggregator)
+    );
+    let validBundle = bundle;
+    for (const aggregator of aggregators) {
+      const userOps = bundle
+        .filter((entry) => entry.aggregator === aggregator)
+        .map((entry) => entry.userOp);
+      const aggregatorContract = IAggregator__factory.connect(
+        aggregator,
+        this.provider
+      );
+      try {
+        const signature = await aggregatorContract.aggregateSignatures(userOps);
+        await aggregatorContract.validateSignatures(userOps, signature);
+      } catch (err: any) {
+        this.logger.error(
+          `Invalid aggregated signature of ${aggregator}: ${err.message}`
+        );
+        await this.reputationService.crashedHandleOps(aggregator);
+        validBundle = validBundle.filter(
+          (entry) => entry.aggregator !== aggregator
+        );
+      }
+    }
+    return validBundle;
+  }
+
+  /**
+   * Decodes FailedOp(opIndex, reason) from a handleOps revert
+   * Returns null if the revert is caused by something else
+   * @param entryPointContract
+   * @param err
+   */
+  private parseFailedOp(
+    entryPointContract: EntryPoint,
+    err: any
+  ): FailedOp | null {
+    if (err?.errorName === "FailedOp") {
+      return this.toFailedOp(err.errorArgs);
+    }
+    // revert data is nested differently depending on the provider
+    const data = err?.data ?? err?.error?.data ?? err?.error?.error?.data;
+    if (typeof data !== "string") {
+      return null;
+    }
+    try {
+      const error = entryPointContract.interface.parseError(data);
+      return error.name === "FailedOp" ? this.toFailedOp(error.args) : null;
+    } catch (_) {
+      return null;
+    }
+  }
+
+  private toFailedOp(args: any): FailedOp {
+    return {
+      index: BigNumber.from(args.opIndex).toNumber(),
+      reason: args.reason,
+    };
+  }
+
+  /**
+   * Penalizes the entity responsible of a FailedOp (AA3x: paymaster, AA1x: factory),
+   * or removes the op from the mempool if the account is responsible
+   * @param bundle
+   * @param failedOp
+   */
+  private async handleFailedOp(
+    bundle: MempoolEntry[],
+    { index, reason }: FailedOp
+  ): Promise<void> {
+    const entry = bundle[index];
+    this.logger.debug(
+      `FailedOp at index ${index}: ${reason} (sender= ${entry?.userOp.sender})`
+    );
+    const paymaster = getAddr(entry?.userOp.paymasterAndData);
+    if (paymaster && typeof reason === "string" && reason.startsWith("AA3")) {
+      await this.reputationService.crashedHandleOps(paymaster);
+    } else if (typeof reason === "string" && reason.startsWith("AA1")) {
+      const factory = getAddr(entry?.userOp.initCode);
+      if (factory) {
+        await this.reputationService.crashedHandleOps(factory);
+      }
+    } else {
+      if (entry) {
+        await this.mempoolService.remove(entry);
+        this.logger.error(`Failed handleOps sender= ${entry.userOp.sender}`);
+      }
+    }
+  }
+
+  /**
+   * Fees of a handleOps transaction, as suggested by the fee oracle
+   * @param fees fees suggested by the fee oracle
+   */
+  private getBundleFees(fees: GasFees): BundleFees {
+    if (fees.mode === "legacy") {
+      return { gasPrice: fees.gasPrice };
+    }
+    return {
+      maxFeePerGas: fees.maxFeePerGas,
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+    };
+  }
+
+  /**
+   * Returns false if the op pays less per gas than a bundle priced at the network fees,
+   * the bundler would lose money by including it
+   * @param userOp
+   * @param fees fees suggested by the fee oracle
+   */
+  private coversNetworkFees(
+    userOp: UserOperationStruct,
+    fees: GasFees
+  ): boolean {
+    if (fees.mode === "legacy") {
+      return getUserOpGasPrice(userOp, fees.baseFee).gte(fees.gasPrice);
+    }
+    return (
+      BigNumber.from(userOp.maxFeePerGas).gte(fees.maxFeePerGas) &&
+      BigNumber.from(userOp.maxPriorityFeePerGas).gte(fees.maxPriorityFeePerGas)
+    );
+  }
+
   private async getUserOpHashes(
     entryPoint: EntryPoint,
     userOps: MempoolEntry[]
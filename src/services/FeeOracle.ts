@@ -0,0 +1,121 @@
+import { BigNumber, providers } from "ethers";
+import { hexValue } from "ethers/lib/utils";
+import { NetworkName } from "../types/networks";
+import { FeeMode, NetworkConfig } from "../common/config";
+
+export interface Eip1559GasFees {
+  mode: "eip1559";
+  // base fee of the next block
+  baseFee: BigNumber;
+  maxFeePerGas: BigNumber;
+  maxPriorityFeePerGas: BigNumber;
+}
+
+export interface LegacyGasFees {
+  mode: "legacy";
+  // base fee of the next block, zero if the network has no base fee
+  baseFee: BigNumber;
+  gasPrice: BigNumber;
+}
+
+// fees suggested by an oracle, `mode` tells which fields are set
+export type GasFees = Eip1559GasFees | LegacyGasFees;
+
+export interface IFeeOracle {
+  mode: FeeMode;
+  getFees(): Promise<GasFees>;
+}
+
+// networks which (at least in some setups) don't support type 2 transactions
+export const legacyFeeNetworks: NetworkName[] = [
+  "bsc",
+  "bscTest",
+  "celo",
+  "celoTest",
+  "fuse",
+  "fuseSparknet",
+];
+
+/**
+ * Suggests EIP-1559 fees from the base fee and the priority fees paid in recent blocks
+ */
+export class Eip1559FeeOracle implements IFeeOracle {
+  mode = "eip1559" as const;
+  private HISTORY_BLOCKS = 10;
+  private REWARD_PERCENTILE = 50;
+
+  constructor(private provider: providers.JsonRpcProvider) {}
+
+  async getFees(): Promise<GasFees> {
+    const history: {
+      baseFeePerGas: string[];
+      reward?: string[][];
+    } = await this.provider.send("eth_feeHistory", [
+      hexValue(this.HISTORY_BLOCKS),
+      "latest",
+      [this.REWARD_PERCENTILE],
+    ]);
+    // the last item is the base fee of the next block
+    const baseFee = BigNumber.from(
+      history.baseFeePerGas[history.baseFeePerGas.length - 1] ?? 0
+    );
+    const rewards = (history.reward ?? [])
+      .map((reward) => BigNumber.from(reward[0] ?? 0))
+      .sort((a, b) => (a.lt(b) ? -1 : a.gt(b) ? 1 : 0));
+    let maxPriorityFeePerGas = rewards[Math.floor(rewards.length / 2)];
+    if (!maxPriorityFeePerGas) {
+      maxPriorityFeePerGas = BigNumber.from(
+        await this.provider.send("eth_maxPriorityFeePerGas", [])
+      );
+    }
+    return {
+      mode: this.mode,
+      baseFee,
+      maxPriorityFeePerGas,
+      // survives a few blocks of base fee increases
+      maxFeePerGas: baseFee.mul(2).add(maxPriorityFeePerGas),
+    };
+  }
+}
+
+/**
+ * Suggests a gasPrice for networks without EIP-1559 support
+ */
+export class LegacyFeeOracle implements IFeeOracle {
+  mode = "legacy" as const;
+
+  constructor(private provider: providers.JsonRpcProvider) {}
+
+  async getFees(): Promise<GasFees> {
+    const [gasPrice, block] = await Promise.all([
+      this.provider.getGasPrice(),
+      this.provider.getBlock("latest"),
+    ]);
+    return {
+      mode: this.mode,
+      baseFee: block.baseFeePerGas ?? BigNumber.from(0),
+      gasPrice,
+    };
+  }
+}
+
+/**
+ * Creates the fee oracle of a network
+ * Uses `feeMode` of the network config, or legacy mode for networks listed in `legacyFeeNetworks`
+ * @param network
+ * @param provider
+ * @param networkConfig
+ */
+export function createFeeOracle(
+  network: NetworkName,
+  provider: providers.JsonRpcProvider,
+  networkConfig: NetworkConfig
+): IFeeOracle {
+  const mode =
+    networkConfig.feeMode ??
+    (legacyFeeNetworks.includes(network) ? "legacy" : "eip1559");
+  if (mode === "legacy") {
+    return new LegacyFeeOracle(provider);
+  }
+  return new Eip1559FeeOracle(provider);
+}
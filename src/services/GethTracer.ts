@@ -1,10 +1,20 @@
 import { readFileSync } from "node:fs";
 import { resolve } from "node:path";
-import { providers } from "ethers";
+import { constants, providers, utils } from "ethers";
 import {
+  BundlerCollectorResult,
+  TracerCall,
+  TracerCodelessAccess,
+  TracerOpcode,
+  TracerOutOfGas,
   TracerPrestateResponse,
   TracerResult,
+  TracerStorageAccess,
+  TracerTracer,
 } from "../models/ExecutorInterface";
+import { TracerMode } from "../common/config";
+import { IAccount__factory } from "../types/executor/contracts/factories/IAccount__factory";
+import { IPaymaster__factory } from "../types/executor/contracts/factories/IPaymaster__factory";
 const tracer = readFileSync(resolve("./src/customTracer.js")).toString();
 if (tracer == null) {
   throw new Error("Tracer not found");
@@ -13,11 +23,97 @@ if (tracer == null) {
 const regexp = /function \w+\s*\(\s*\)\s*{\s*return\s*(\{[\s\S]+\});?\s*\}\s*$/;
 const stringifiedTracer = tracer.match(regexp)![1];
 
+export type TracerBackend = "js" | "native";
+
+// opcodes reported by the javascript tracer, the native tracer counts almost every opcode
+const RESTRICTED_OPCODES = [
+  "GAS",
+  "GASPRICE",
+  "GASLIMIT",
+  "DIFFICULTY",
+  "TIMESTAMP",
+  "BASEFEE",
+  "BLOCKHASH",
+  "NUMBER",
+  "SELFBALANCE",
+  "BALANCE",
+  "ORIGIN",
+  "COINBASE",
+  "SELFDESTRUCT",
+  "RANDOM",
+  "PREVRANDAO",
+  "CREATE",
+  "CREATE2",
+  "INVALID",
+  "BLOBHASH",
+  "BLOBBASEFEE",
+];
+
+// calls of the entry point starting each validation phase: factory, account and paymaster
+const PHASE_SELECTORS: { [selector: string]: number } = {
+  [utils.id("createSender(bytes)").slice(0, 10)]: 0,
+  [IAccount__factory.createInterface().getSighash("validateUserOp")]: 1,
+  [IPaymaster__factory.createInterface().getSighash(
+    "validatePaymasterUserOp"
+  )]: 2,
+};
+
 export class GethTracer {
+  private backend: TracerBackend = "js";
+  private nativeTracer = "bundlerCollectorTracer";
+
   constructor(private provider: providers.JsonRpcProvider) {}
 
+  getBackend(): TracerBackend {
+    return this.backend;
+  }
+
+  /**
+   * Picks the tracer backend supported by the node, "auto" prefers the native tracer to the javascript one
+   * Throws if none of the candidates works
+   * @param mode
+   * @param nativeTracer name of the native tracer
+   */
+  async init(mode: TracerMode, nativeTracer: string): Promise<TracerBackend> {
+    this.nativeTracer = nativeTracer;
+    const candidates: TracerBackend[] =
+      mode === "auto" ? ["native", "js"] : [mode];
+    for (const backend of candidates) {
+      if (await this.isSupported(backend)) {
+        this.backend = backend;
+        return backend;
+      }
+    }
+    throw new Error(
+      `The node supports none of the tracers: ${candidates.join(", ")}`
+    );
+  }
+
   async debug_traceCall(
     tx: providers.TransactionRequest
+  ): Promise<TracerResult> {
+    if (this.backend === "native") {
+      const ret = await this.traceNative(tx);
+      return parseCollectorResult(ret, tx.to!.toLowerCase());
+    }
+    return await this.traceJs(tx);
+  }
+
+  async debug_traceCallPrestate(
+    tx: providers.TransactionRequest
+  ): Promise<TracerPrestateResponse> {
+    const ret: any = await this.provider.send("debug_traceCall", [
+      tx,
+      "latest",
+      { tracer: "prestateTracer" },
+    ]);
+    return ret;
+  }
+
+  // INTERNAL METHODS
+
+  private async traceJs(
+    tx: providers.TransactionRequest
   ): Promise<TracerResult> {
     const ret: any = await this.provider.send("debug_traceCall", [
       tx,
@@ -33,14 +129,126 @@ export class GethTracer {
     return ret as TracerResult;
   }
 
-  async debug_traceCallPrestate(
+  private async traceNative(
     tx: providers.TransactionRequest
-  ): Promise<TracerPrestateResponse> {
+  ): Promise<BundlerCollectorResult> {
     const ret: any = await this.provider.send("debug_traceCall", [
       tx,
       "latest",
-      { tracer: "prestateTracer" },
+      { tracer: this.nativeTracer },
     ]);
-    return ret;
+    return ret as BundlerCollectorResult;
   }
+
+  /**
+   * Traces an empty call with the backend, and checks the shape of its output
+   * @param backend
+   */
+  private async isSupported(backend: TracerBackend): Promise<boolean> {
+    const tx = { to: constants.AddressZero, data: "0x" };
+    try {
+      if (backend === "native") {
+        const ret = await this.traceNative(tx);
+        return Array.isArray(ret?.callsFromEntryPoint);
+      }
+      const ret = await this.traceJs(tx);
+      return Array.isArray(ret?.calls);
+    } catch (err) {
+      return false;
+    }
+  }
+}
+
+/**
+ * Converts the output of the native tracer to the output of the javascript tracer
+ * Each call of the entry point is a level of the native tracer, mapped to the validation phase it starts
+ * @param ret
+ * @param entryPoint lowercase address of the entry point
+ */
+function parseCollectorResult(
+  ret: BundlerCollectorResult,
+  entryPoint: string
+): TracerResult {
+  const trace: TracerTracer = {
+    [entryPoint]: {
+      storage: {},
+      number: 0,
+      keccak: Object.fromEntries(
+        ret.keccak.map((input) => [input, utils.keccak256(input).slice(2)])
+      ),
+    },
+  };
+  const touch = (address: string, phase: number): void => {
+    if (!trace[address]) {
+      trace[address] = { storage: {}, number: phase };
+    }
+  };
+
+  let phase = 0;
+  const calls: TracerCall[] = ret.calls.map((call) => {
+    if (call.from?.toLowerCase() === entryPoint) {
+      phase = PHASE_SELECTORS[call.method ?? ""] ?? phase;
+    }
+    if (call.to) {
+      touch(call.to.toLowerCase(), phase);
+    }
+    return call.from ? { ...call, phase } : call;
+  });
+
+  const storageAccesses: TracerStorageAccess[] = [];
+  const opcodes: TracerOpcode[] = [];
+  const codelessAccesses: TracerCodelessAccess[] = [];
+  const outOfGas: TracerOutOfGas[] = [];
+  phase = 0;
+  for (const level of ret.callsFromEntryPoint) {
+    phase = PHASE_SELECTORS[level.topLevelMethodSig] ?? phase;
+    const address = level.topLevelTargetAddress.toLowerCase();
+    touch(address, phase);
+
+    for (const [opcode, count] of Object.entries(level.opcodes)) {
+      if (RESTRICTED_OPCODES.includes(opcode) || opcode.startsWith("opcode ")) {
+        opcodes.push({ phase, address, opcode, count });
+      }
+    }
+    for (const [contract, { reads, writes }] of Object.entries(level.access)) {
+      const target = contract.toLowerCase();
+      touch(target, phase);
+      const slots = new Set([...Object.keys(reads), ...Object.keys(writes)]);
+      for (const slot of slots) {
+        const key = utils.hexValue(slot).slice(2);
+        const storage = trace[target]!.storage!;
+        storage[key] = (storage[key] ?? 0) + 1;
+        storageAccesses.push({
+          phase,
+          address: target,
+          slot: key,
+          write: writes[slot] != null,
+        });
+      }
+    }
+    for (const [target, { opcode, contractSize }] of Object.entries(
+      level.contractSize
+    )) {
+      if (contractSize === 0) {
+        codelessAccesses.push({
+          phase,
+          address,
+          target: target.toLowerCase(),
+          opcode,
+        });
+      }
+    }
+    if (level.oog) {
+      outOfGas.push({ phase, address });
+    }
+  }
+
+  return {
+    trace,
+    calls,
+    storageAccesses,
+    opcodes,
+    codelessAccesses,
+    outOfGas,
+  };
 }
@@ -1,36 +1,93 @@
-import { BigNumberish } from "ethers";
+import { BigNumber, BigNumberish } from "ethers";
+import { Mutex } from "async-mutex";
 import { IDbController } from "../types/db";
 import RpcError from "../types/api/errors/rpc-error";
 import * as RpcErrorCodes from "../types/api/errors/rpc-error-codes";
 import { UserOperationStruct } from "../types/executor/contracts/EntryPoint";
-import { getAddr, now } from "../utils";
+import { getAddr, getUserOpHash, now } from "../utils";
 import { MempoolEntry } from "../models/MempoolEntry";
 import {
   MempoolEntrySerialized,
   IMempoolEntry,
+  MempoolEviction,
+  MempoolEvictionReason,
 } from "../models/EntitiesInterface";
+import { Logger } from "../models/ExecutorInterface";
+import { NetworkName } from "../types/networks";
+import { Config, NetworkConfig } from "../common/config";
 import { ReputationService } from "./ReputationService";
 import { StakeInfo } from "./UserOpValidation";
 import { hexValue } from "@ethersproject/bytes";
 
 export class MempoolService {
   private MAX_MEMPOOL_USEROPS_PER_SENDER = 4;
+  // legacy storage: a single array with the keys of all entries
   private USEROP_COLLECTION_KEY: string;
+  private SENDERS_KEY: string;
+  private MAX_EVICTIONS_KEPT = 100;
+  private sweepInterval = 10 * 1000;
+  private sweepCron?: NodeJS.Timeout;
+  private mutex: Mutex;
+  private loading?: Promise<void>;
+  private networkConfig: NetworkConfig;
+  // latest evictions, most recent last
+  private evictions: MempoolEviction[] = [];
+  // base fee the last bundle was built at, entries are evicted by their effective gas price at it
+  private baseFee: BigNumberish = 0;
+
+  // in-memory copy of the persisted entries, by entry key
+  private entries = new Map<string, MempoolEntry>();
+  // secondary indexes, addresses and hashes are lowercased
+  private bySender = new Map<string, Set<string>>();
+  private byHash = new Map<string, string>();
+
   constructor(
     private db: IDbController,
     private chainId: number,
-    private reputationService: ReputationService
+    private network: NetworkName,
+    private reputationService: ReputationService,
+    private config: Config,
+    private logger: Logger
   ) {
+    this.networkConfig = this.config.getNetworkConfig(network)!;
     this.USEROP_COLLECTION_KEY = `${chainId}:USEROPKEYS`;
+    this.SENDERS_KEY = `${chainId}:MEMPOOL:SENDERS`;
+    this.mutex = new Mutex();
+  }
+
+  /**
+   * Starts sweeping the expired entries every `sweepInterval` ms
+   */
+  start(): void {
+    if (this.sweepCron) {
+      return;
+    }
+    this.sweepCron = setInterval(() => {
+      void this.sweep();
+    }, this.sweepInterval);
+  }
+
+  stop(): void {
+    clearInterval(this.sweepCron);
+    this.sweepCron = undefined;
   }
 
+  /**
+   * Amount of entries waiting to be bundled
+   */
   async count(): Promise<number> {
-    const userOpKeys: string[] = await this.fetchKeys();
-    return userOpKeys.length;
+    return (await this.fetchPending()).length;
   }
 
   async dump(): Promise<MempoolEntrySerialized[]> {
-    return (await this.fetchAll()).map((entry) => entry.serialize());
+    return (await this.fetchPending()).map((entry) => entry.serialize());
+  }
+
+  /**
+   * Returns the latest evicted entries, most recent last
+   */
+  getEvictions(): MempoolEviction[] {
+    return [...this.evictions];
   }
 
   async addUserOp(
@@ -38,8 +95,9 @@ export class MempoolService {
     entryPoint: string,
     prefund: BigNumberish,
     senderInfo: StakeInfo,
-    hash?: string,
-    aggregator?: string
+    referencedContractsHash?: string,
+    aggregator?: string,
+    validUntil?: number
   ): Promise<void> {
     const entry = new MempoolEntry({
       chainId: this.chainId,
@@ -47,35 +105,40 @@ export class MempoolService {
       entryPoint,
       prefund,
       aggregator,
-      hash,
+      referencedContractsHash,
+      userOpHash: getUserOpHash(userOp, entryPoint, this.chainId),
+      validUntil,
     });
 
-    const isEntryExisted = await this.find(entry);
-    if (isEntryExisted) {
-      if (!entry.canReplace(isEntryExisted)) {
+    await this.mutex.runExclusive(async () => {
+      await this.load();
+      const isEntryExisted = this.find(entry);
+      if (isEntryExisted?.submittedIn) {
         throw new RpcError(
-          "User op cannot be replaced: fee too low",
-          RpcErrorCodes.INVALID_OPCODE
+          "User op already submitted",
+          RpcErrorCodes.INVALID_REQUEST
         );
       }
-      await this.db.put(this.getKey(entry), {
-        ...entry,
-        lastUpdatedTime: now(),
-      });
-    } else {
-      const checkState = await this.checkSenderCountInMempool(
-        userOp,
-        senderInfo
-      );
-      if (checkState) {
-        throw new RpcError(checkState, RpcErrorCodes.INVALID_REQUEST);
+      if (isEntryExisted) {
+        if (!entry.canReplace(isEntryExisted)) {
+          throw new RpcError(
+            "User op cannot be replaced: fee too low",
+            RpcErrorCodes.INVALID_OPCODE
+          );
+        }
+      } else {
+        const checkState = await this.checkSenderCountInMempool(
+          userOp,
+          senderInfo
+        );
+        if (checkState) {
+          throw new RpcError(checkState, RpcErrorCodes.INVALID_REQUEST);
+        }
+        await this.makeRoomFor(entry);
       }
-      const userOpKeys = await this.fetchKeys();
-      const key = this.getKey(entry);
-      userOpKeys.push(key);
-      await this.db.put(this.USEROP_COLLECTION_KEY, userOpKeys);
-      await this.db.put(key, { ...entry, lastUpdatedTime: now() });
-    }
+      entry.lastUpdatedTime = now();
+      await this.put(entry);
+    });
     await this.updateSeenStatus(userOp, aggregator);
   }
 
@@ -83,10 +146,68 @@ export class MempoolService {
     if (!entry) {
       return;
     }
-    const key = this.getKey(entry);
-    const newKeys = (await this.fetchKeys()).filter((k) => k !== key);
-    await this.db.del(key);
-    await this.db.put(this.USEROP_COLLECTION_KEY, newKeys);
+    await this.mutex.runExclusive(async () => {
+      await this.load();
+      await this.delete(this.getKey(entry));
+    });
+  }
+
+  /**
+   * Keeps the entries of a sent bundle out of bundling until the bundle is confirmed or dropped
+   * @param entries
+   * @param transactionHash hash of the bundle transaction
+   */
+  async markSubmitted(
+    entries: MempoolEntry[],
+    transactionHash: string
+  ): Promise<void> {
+    await this.mutex.runExclusive(async () => {
+      await this.load();
+      for (const entry of entries) {
+        const existing = this.find(entry);
+        if (existing) {
+          existing.submittedIn = transactionHash;
+          await this.put(existing);
+        }
+      }
+    });
+  }
+
+  /**
+   * Puts back entries of a bundle which was not mined, they can be bundled again
+   * Entries replaced in the meantime by a new user op are skipped
+   * @param entries
+   */
+  async reinsert(entries: IMempoolEntry[]): Promise<void> {
+    await this.mutex.runExclusive(async () => {
+      await this.load();
+      for (const raw of entries) {
+        const entry = this.rawEntryToMempoolEntry(raw);
+        const existing = this.find(entry);
+        if (existing && !existing.submittedIn) {
+          continue;
+        }
+        entry.submittedIn = undefined;
+        entry.lastUpdatedTime = now();
+        await this.put(entry);
+      }
+    });
+  }
+
+  /**
+   * Removes the entries still waiting for their bundle: confirmed ones, or invalid ones of an unmined bundle
+   * @param entries
+   */
+  async removeSubmitted(entries: IMempoolEntry[]): Promise<void> {
+    await this.mutex.runExclusive(async () => {
+      await this.load();
+      for (const raw of entries) {
+        const key = this.getKey(raw);
+        if (this.entries.get(key)?.submittedIn) {
+          await this.delete(key);
+        }
+      }
+    });
   }
 
   async removeUserOp(userOp: UserOperationStruct): Promise<void> {
@@ -99,62 +220,336 @@ export class MempoolService {
     await this.remove(entry);
   }
 
-  async getSortedOps(): Promise<MempoolEntry[]> {
-    const allEntries = await this.fetchAll();
-    return allEntries.sort(MempoolEntry.compareByCost);
+  /**
+   * Returns the entries by decreasing effective gas price, with the ops of each sender in nonce order:
+   * the slots of a sender keep their price order, and are given to its ops by increasing nonce
+   * @param baseFee latest base fee, the effective gas price of an op depends on it
+   */
+  async getSortedOps(baseFee: BigNumberish = 0): Promise<MempoolEntry[]> {
+    this.baseFee = baseFee;
+    const allEntries = (await this.fetchPending()).sort(
+      MempoolEntry.compareByEffectiveGasPrice(baseFee)
+    );
+    const senderOps = new Map<string, MempoolEntry[]>();
+    for (const entry of allEntries) {
+      const sender = entry.userOp.sender.toLowerCase();
+      senderOps.set(sender, [...(senderOps.get(sender) ?? []), entry]);
+    }
+    for (const ops of senderOps.values()) {
+      ops.sort(MempoolEntry.compareByNonce);
+    }
+    return allEntries.map(
+      (entry) => senderOps.get(entry.userOp.sender.toLowerCase())!.shift()!
+    );
+  }
+
+  /**
+   * Returns the entry with the given userOpHash, or null
+   * The op might be submitted already, see `submittedIn`
+   * @param userOpHash
+   */
+  async findByHash(userOpHash: string): Promise<MempoolEntry | null> {
+    await this.load();
+    const key = this.byHash.get(userOpHash.toLowerCase());
+    return (key && this.entries.get(key)) || null;
+  }
+
+  /**
+   * Returns the entries of a sender
+   * @param sender
+   */
+  async getBySender(sender: string): Promise<MempoolEntry[]> {
+    await this.load();
+    return this.getIndexed(this.bySender, sender);
   }
 
   async clearState(): Promise<void> {
-    const keys = await this.fetchKeys();
-    for (const key of keys) {
-      await this.db.del(key);
-    }
-    await this.db.del(this.USEROP_COLLECTION_KEY);
+    await this.mutex.runExclusive(async () => {
+      await this.load();
+      for (const key of this.entries.keys()) {
+        await this.db.del(key);
+      }
+      for (const sender of this.bySender.keys()) {
+        await this.db.del(this.getSenderKey(sender));
+      }
+      await this.db.del(this.SENDERS_KEY);
+      this.entries.clear();
+      this.bySender.clear();
+      this.byHash.clear();
+    });
   }
 
   async isNewOrReplacing(
     userOp: UserOperationStruct,
     entryPoint: string
   ): Promise<boolean> {
+    await this.load();
     const entry = new MempoolEntry({
       chainId: this.chainId,
       userOp,
       entryPoint,
       prefund: "0",
     });
-    const isEntryExisted = await this.find(entry);
+    const isEntryExisted = this.find(entry);
+    if (isEntryExisted?.submittedIn) {
+      return false;
+    }
     return !isEntryExisted || entry.canReplace(isEntryExisted);
   }
 
+  /**
+   * Evicts entries not updated for `mempoolTtl` ms, and the ones whose validity ended
+   */
+  async sweep(): Promise<void> {
+    await this.mutex.runExclusive(async () => {
+      try {
+        await this.load();
+        const timestamp = now();
+        for (const [key, entry] of this.entries) {
+          if (entry.submittedIn) {
+            continue;
+          }
+          if (entry.validUntil && entry.validUntil * 1000 <= timestamp) {
+            await this.evict(key, "validUntil");
+          } else if (
+            timestamp - entry.lastUpdatedTime >
+            this.networkConfig.mempoolTtl
+          ) {
+            await this.evict(key, "ttl");
+          }
+        }
+      } catch (err) {
+        this.logger.error(err, "Failed to sweep the mempool");
+      }
+    });
+  }
+
   // INTERNAL FUNCTION
 
-  private async fetchKeys(): Promise<string[]> {
-    const userOpKeys = await this.db
+  /**
+   * Evicts an entry of the lowest paying sender if the mempool is full, must be called within the mutex
+   * Like in `getSortedOps`, the slots of a sender go to its ops by increasing nonce:
+   * its highest nonce is evicted, so that no remaining op waits for an evicted one
+   * Entries of sent bundles don't count towards the capacity
+   * Throws if the new entry doesn't pay more than the lowest paying entry
+   * @param entry new entry
+   */
+  private async makeRoomFor(entry: MempoolEntry): Promise<void> {
+    const pending = [...this.entries.values()].filter(
+      ({ submittedIn }) => !submittedIn
+    );
+    if (pending.length < this.networkConfig.maxMempoolSize) {
+      return;
+    }
+    const compare = MempoolEntry.compareByEffectiveGasPrice(this.baseFee);
+    const lowest = pending.reduce<MempoolEntry | undefined>(
+      (lowest, candidate) =>
+        !lowest || compare(candidate, lowest) > 0 ? candidate : lowest,
+      undefined
+    );
+    if (!lowest || compare(entry, lowest) >= 0) {
+      throw new RpcError(
+        "Mempool is full: fee too low",
+        RpcErrorCodes.INVALID_REQUEST
+      );
+    }
+    const sender = lowest.userOp.sender.toLowerCase();
+    const evicted = pending
+      .filter(({ userOp }) => userOp.sender.toLowerCase() === sender)
+      .sort(MempoolEntry.compareByNonce)
+      .pop()!;
+    await this.evict(this.getKey(evicted), "capacity");
+  }
+
+  /**
+   * Removes an entry and records why, must be called within the mutex
+   * @param key
+   * @param reason
+   */
+  private async evict(
+    key: string,
+    reason: MempoolEvictionReason
+  ): Promise<void> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return;
+    }
+    await this.delete(key);
+    const eviction: MempoolEviction = {
+      userOpHash: entry.userOpHash,
+      sender: entry.userOp.sender,
+      nonce: hexValue(BigNumber.from(entry.userOp.nonce)),
+      reason,
+      evictedAt: now(),
+    };
+    this.evictions.push(eviction);
+    if (this.evictions.length > this.MAX_EVICTIONS_KEPT) {
+      this.evictions.shift();
+    }
+    this.logger.info(
+      `Evicted op ${entry.userOpHash} of ${entry.userOp.sender} from the mempool: ${reason}`,
+      { metadata: { network: this.network, ...eviction } }
+    );
+  }
+
+  /**
+   * Fills the cache and the indexes from the db, once
+   * Entries stored under the legacy key array are moved to the per-sender lists
+   */
+  private async load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.loadFromDb().catch((err) => {
+        this.loading = undefined;
+        throw err;
+      });
+    }
+    return this.loading;
+  }
+
+  private async loadFromDb(): Promise<void> {
+    const senders = await this.db
+      .get<string[]>(this.SENDERS_KEY)
+      .catch((): string[] => []);
+    const keys: string[] = [];
+    for (const sender of senders) {
+      const senderKeys = await this.db
+        .get<string[]>(this.getSenderKey(sender))
+        .catch((): string[] => []);
+      keys.push(...senderKeys);
+    }
+    const legacyKeys = await this.db
       .get<string[]>(this.USEROP_COLLECTION_KEY)
-      .catch(() => []);
-    return userOpKeys;
+      .catch((): string[] => []);
+    // entries stored under keys with a decimal nonce or a mixed case sender are moved to the current key,
+    // only the first loaded entry of a sender and nonce is kept
+    let rekeyed = false;
+    for (const key of [...keys, ...legacyKeys]) {
+      // a missing entry must not prevent loading the others
+      const raw = await this.db.get<IMempoolEntry>(key).catch(() => null);
+      if (!raw) {
+        continue;
+      }
+      const entry = this.rawEntryToMempoolEntry(raw);
+      const entryKey = this.getKey(entry);
+      if (this.entries.has(entryKey)) {
+        if (key !== entryKey) {
+          await this.db.del(key);
+        }
+        rekeyed = true;
+        continue;
+      }
+      this.index(entry);
+      if (key !== entryKey) {
+        await this.db.put(entryKey, entry);
+        await this.db.del(key);
+        rekeyed = true;
+      }
+    }
+    if (legacyKeys.length || rekeyed) {
+      for (const sender of this.bySender.keys()) {
+        await this.db.put(this.getSenderKey(sender), [
+          ...this.bySender.get(sender)!,
+        ]);
+      }
+      await this.db.put(this.SENDERS_KEY, [...this.bySender.keys()]);
+      await this.db.del(this.USEROP_COLLECTION_KEY);
+    }
   }
 
   private async fetchAll(): Promise<MempoolEntry[]> {
-    const keys = await this.fetchKeys();
-    const rawEntries = await this.db
-      .getMany<MempoolEntry>(keys)
-      .catch(() => []);
-    return rawEntries.map(this.rawEntryToMempoolEntry);
+    await this.load();
+    return [...this.entries.values()];
+  }
+
+  private async fetchPending(): Promise<MempoolEntry[]> {
+    return (await this.fetchAll()).filter((entry) => !entry.submittedIn);
+  }
+
+  private find(entry: MempoolEntry): MempoolEntry | null {
+    return this.entries.get(this.getKey(entry)) ?? null;
   }
 
-  private async find(entry: MempoolEntry): Promise<MempoolEntry | null> {
-    const raw = await this.db
-      .get<IMempoolEntry>(this.getKey(entry))
-      .catch(() => null);
-    if (raw) {
-      return this.rawEntryToMempoolEntry(raw);
+  /**
+   * Stores a new or replacing entry, must be called within the mutex
+   * @param entry
+   */
+  private async put(entry: MempoolEntry): Promise<void> {
+    const key = this.getKey(entry);
+    const sender = entry.userOp.sender.toLowerCase();
+    const isNewSender = !this.bySender.has(sender);
+    const isNewKey = !this.bySender.get(sender)?.has(key);
+
+    await this.db.put(key, entry);
+    if (this.entries.has(key)) {
+      this.unindex(this.entries.get(key)!);
+    }
+    this.index(entry);
+    if (isNewKey) {
+      await this.db.put(this.getSenderKey(sender), [
+        ...this.bySender.get(sender)!,
+      ]);
+    }
+    if (isNewSender) {
+      await this.db.put(this.SENDERS_KEY, [...this.bySender.keys()]);
+    }
+  }
+
+  /**
+   * Removes an entry, must be called within the mutex
+   * @param key
+   */
+  private async delete(key: string): Promise<void> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return;
+    }
+    const sender = entry.userOp.sender.toLowerCase();
+    this.unindex(entry);
+    await this.db.del(key);
+    const senderKeys = this.bySender.get(sender);
+    if (senderKeys) {
+      await this.db.put(this.getSenderKey(sender), [...senderKeys]);
+    } else {
+      await this.db.del(this.getSenderKey(sender));
+      await this.db.put(this.SENDERS_KEY, [...this.bySender.keys()]);
     }
-    return null;
+  }
+
+  private index(entry: MempoolEntry): void {
+    const key = this.getKey(entry);
+    this.entries.set(key, entry);
+    addToIndex(this.bySender, entry.userOp.sender, key);
+    if (entry.userOpHash) {
+      this.byHash.set(entry.userOpHash.toLowerCase(), key);
+    }
+  }
+
+  private unindex(entry: MempoolEntry): void {
+    const key = this.getKey(entry);
+    this.entries.delete(key);
+    removeFromIndex(this.bySender, entry.userOp.sender, key);
+    if (entry.userOpHash) {
+      this.byHash.delete(entry.userOpHash.toLowerCase());
+    }
+  }
+
+  private getIndexed(
+    index: Map<string, Set<string>>,
+    address: string
+  ): MempoolEntry[] {
+    const keys = index.get(address.toLowerCase()) ?? new Set<string>();
+    return [...keys].map((key) => this.entries.get(key)!);
   }
 
   private getKey(entry: IMempoolEntry): string {
-    return `${this.chainId}:${entry.userOp.sender}:${entry.userOp.nonce}`;
+    // the nonce of serialized entries is hex encoded, the sender is lowercased
+    // so that the same op sent with a differently cased sender replaces it
+    const nonce = hexValue(BigNumber.from(entry.userOp.nonce));
+    return `${this.chainId}:${entry.userOp.sender.toLowerCase()}:${nonce}`;
+  }
+
+  private getSenderKey(sender: string): string {
+    return `${this.chainId}:MEMPOOL:SENDER:${sender.toLowerCase()}`;
   }
 
   private async updateSeenStatus(
@@ -178,24 +573,59 @@ export class MempoolService {
     userOp: UserOperationStruct,
     userInfo: StakeInfo
   ): Promise<string | null> {
-    const entries = await this.fetchAll();
-    const count: number = entries.filter(
-      ({ userOp: { sender } }) => sender === userOp.sender
-    ).length;
+    const count = this.bySender.get(userOp.sender.toLowerCase())?.size ?? 0;
     if (count >= this.MAX_MEMPOOL_USEROPS_PER_SENDER) {
       return this.reputationService.checkStake(userInfo);
     }
     return null;
   }
 
-  private rawEntryToMempoolEntry(raw: IMempoolEntry): MempoolEntry {
-    return new MempoolEntry({
+  private rawEntryToMempoolEntry(
+    raw: IMempoolEntry & { lastUpdatedTime?: number }
+  ): MempoolEntry {
+    const entry = new MempoolEntry({
       chainId: raw.chainId,
       userOp: raw.userOp,
       entryPoint: raw.entryPoint,
       prefund: raw.prefund,
       aggregator: raw.aggregator,
-      hash: raw.hash,
+      referencedContractsHash: raw.referencedContractsHash,
+      userOpHash:
+        raw.userOpHash ??
+        getUserOpHash(raw.userOp, raw.entryPoint, raw.chainId),
+      validUntil: raw.validUntil,
+      submittedIn: raw.submittedIn,
     });
+    if (raw.lastUpdatedTime) {
+      entry.lastUpdatedTime = raw.lastUpdatedTime;
+    }
+    return entry;
+  }
+}
+
+function addToIndex(
+  index: Map<string, Set<string>>,
+  address: string,
+  key: string
+): void {
+  const id = address.toLowerCase();
+  const keys = index.get(id) ?? new Set<string>();
+  keys.add(key);
+  index.set(id, keys);
+}
+
+function removeFromIndex(
+  index: Map<string, Set<string>>,
+  address: string,
+  key: string
+): void {
+  const id = address.toLowerCase();
+  const keys = index.get(id);
+  if (!keys) {
+    return;
+  }
+  keys.delete(key);
+  if (!keys.size) {
+    index.delete(id);
   }
 }
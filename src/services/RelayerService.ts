@@ -0,0 +1,155 @@
+import { BigNumber, Wallet, providers } from "ethers";
+import { NetworkName } from "../types/networks";
+import { Config } from "../common/config";
+import { Logger } from "../models/ExecutorInterface";
+
+export type RelayerSigner = Wallet | providers.JsonRpcSigner;
+
+export interface Relayer {
+  address: string;
+  signer: RelayerSigner;
+}
+
+export interface RelayerStatus {
+  address: string;
+  balance: BigNumber;
+  // transactions sent but not mined yet
+  pending: number;
+  busy: boolean;
+}
+
+export class RelayerService {
+  private relayers: Relayer[] = [];
+  // next nonce of each relayer, tracked locally to send several transactions per block
+  private nonces = new Map<string, number>();
+  // relayers currently building or sending a bundle
+  private busy = new Set<string>();
+
+  constructor(
+    private network: NetworkName,
+    private provider: providers.JsonRpcProvider,
+    private config: Config,
+    private logger: Logger
+  ) {}
+
+  /**
+   * Reserves the best available relayer: not busy, balance above `minSignerBalance` and `minBalance`,
+   * with the least pending transactions and then the highest balance
+   * Returns null if every relayer is busy or underfunded
+   * @param minBalance balance needed to send the transaction
+   * @param excluded addresses of relayers which must not be picked
+   */
+  async acquire(
+    minBalance: BigNumber = BigNumber.from(0),
+    excluded: string[] = []
+  ): Promise<Relayer | null> {
+    const { minSignerBalance } = this.config.getNetworkConfig(this.network)!;
+    if (minBalance.lt(minSignerBalance)) {
+      minBalance = BigNumber.from(minSignerBalance);
+    }
+    const candidates: RelayerStatus[] = [];
+    for (const relayer of await this.getRelayers()) {
+      if (
+        this.busy.has(relayer.address) ||
+        excluded.includes(relayer.address)
+      ) {
+        continue;
+      }
+      const status = await this.getStatus(relayer);
+      if (status.balance.lt(minBalance)) {
+        this.logger.debug(`Skipping relayer ${relayer.address}: low balance`);
+        continue;
+      }
+      candidates.push(status);
+    }
+    candidates.sort((a, b) =>
+      a.pending !== b.pending
+        ? a.pending - b.pending
+        : b.balance.gt(a.balance)
+        ? 1
+        : b.balance.lt(a.balance)
+        ? -1
+        : 0
+    );
+    // another caller might have reserved some relayers while balances were fetched
+    const best = candidates.find(({ address }) => !this.busy.has(address));
+    if (!best) {
+      return null;
+    }
+    this.busy.add(best.address);
+    return this.getRelayer(best.address);
+  }
+
+  release(relayer: Relayer): void {
+    this.busy.delete(relayer.address);
+  }
+
+  /**
+   * Returns the nonce of the next transaction of the relayer
+   * @param relayer
+   */
+  async getNonce(relayer: Relayer): Promise<number> {
+    const pendingNonce = await this.provider.getTransactionCount(
+      relayer.address,
+      "pending"
+    );
+    const localNonce = this.nonces.get(relayer.address) ?? 0;
+    return Math.max(localNonce, pendingNonce);
+  }
+
+  /**
+   * Records a transaction sent by the relayer
+   * @param relayer
+   * @param nonce nonce of the sent transaction
+   */
+  incrementNonce(relayer: Relayer, nonce: number): void {
+    this.nonces.set(relayer.address, nonce + 1);
+  }
+
+  /**
+   * Forgets the local nonce, the next one is read from the node
+   * Should be called when a transaction of the relayer failed to be sent
+   * @param relayer
+   */
+  resetNonce(relayer: Relayer): void {
+    this.nonces.delete(relayer.address);
+  }
+
+  async getRelayers(): Promise<Relayer[]> {
+    if (!this.relayers.length) {
+      const relayers: Relayer[] = [];
+      for (const signer of this.config.getRelayers(this.network)) {
+        relayers.push({ address: await signer.getAddress(), signer });
+      }
+      this.relayers = relayers;
+    }
+    return this.relayers;
+  }
+
+  /**
+   * Returns the relayer with the given address, or null if it is not part of the pool
+   * @param address
+   */
+  async getRelayer(address: string): Promise<Relayer | null> {
+    const relayers = await this.getRelayers();
+    return (
+      relayers.find(
+        (relayer) => relayer.address.toLowerCase() === address.toLowerCase()
+      ) ?? null
+    );
+  }
+
+  async getStatus(relayer: Relayer): Promise<RelayerStatus> {
+    const [balance, minedNonce] = await Promise.all([
+      this.provider.getBalance(relayer.address),
+      this.provider.getTransactionCount(relayer.address, "latest"),
+    ]);
+    const nextNonce = await this.getNonce(relayer);
+    return {
+      address: relayer.address,
+      balance,
+      pending: nextNonce - minedNonce,
+      busy: this.busy.has(relayer.address),
+    };
+  }
+}
@@ -148,12 +148,23 @@ export class ReputationService {
     if ((await this.getStatus(info.addr)) === ReputationStatus.BANNED) {
       return `${info.addr} is banned`;
     }
+    if (BigNumber.from(info.stake).lt(this.minStake)) {
+      return `${info.addr} stake ${info.stake} is too low`;
+    }
     if (BigNumber.from(info.unstakeDelaySec).lt(this.minUnstakeDelay)) {
       return `${info.addr} unstake delay ${info.unstakeDelaySec} is too low`;
     }
     return null;
   }
 
+  /**
+   * An entity is staked if it is whitelisted, or not banned with at least the min stake and unstake delay
+   * @param info
+   */
+  async isStaked(info: StakeInfo): Promise<boolean> {
+    return (await this.checkStake(info)) == null;
+  }
+
   // WHITELIST - BLACKLIST
 
   async isWhitelisted(addr: string): Promise<boolean> {
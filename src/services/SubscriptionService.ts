@@ -0,0 +1,159 @@
+import { BigNumberish } from "ethers";
+import { hexlify, randomBytes } from "ethers/lib/utils";
+import { UserOperationStruct } from "../types/executor/contracts/EntryPoint";
+import { getAddr } from "../utils";
+import { MempoolEntry } from "../models/MempoolEntry";
+import { Logger } from "../models/ExecutorInterface";
+
+export type SubscriptionTopic =
+  | "newPendingUserOperations"
+  | "bundledUserOperations"
+  | "userOperationReceipts";
+
+export const subscriptionTopics: SubscriptionTopic[] = [
+  "newPendingUserOperations",
+  "bundledUserOperations",
+  "userOperationReceipts",
+];
+
+export interface SubscriptionFilter {
+  sender?: string;
+  paymaster?: string;
+  userOpHash?: string;
+}
+
+export interface UserOperationNotification {
+  userOpHash: string;
+  entryPoint: string;
+  userOperation: UserOperationStruct;
+  transactionHash?: string;
+}
+
+export interface UserOperationReceiptNotification {
+  userOpHash: string;
+  entryPoint: string;
+  sender: string;
+  paymaster: string;
+  nonce: BigNumberish;
+  success: boolean;
+  actualGasCost: BigNumberish;
+  actualGasUsed: BigNumberish;
+  transactionHash: string;
+  blockHash: string;
+  blockNumber: number;
+}
+
+export type SubscriptionListener = (
+  subscriptionId: string,
+  payload: UserOperationNotification | UserOperationReceiptNotification
+) => void;
+
+interface Subscription {
+  topic: SubscriptionTopic;
+  filter: SubscriptionFilter;
+  listener: SubscriptionListener;
+}
+
+export class SubscriptionService {
+  private subscriptions = new Map<string, Subscription>();
+
+  constructor(private logger: Logger) {}
+
+  subscribe(
+    topic: SubscriptionTopic,
+    filter: SubscriptionFilter,
+    listener: SubscriptionListener
+  ): string {
+    const id = hexlify(randomBytes(16));
+    this.subscriptions.set(id, { topic, filter, listener });
+    return id;
+  }
+
+  unsubscribe(id: string): boolean {
+    return this.subscriptions.delete(id);
+  }
+
+  notifyPendingUserOp(
+    userOp: UserOperationStruct,
+    entryPoint: string,
+    userOpHash: string
+  ): void {
+    this.notify("newPendingUserOperations", {
+      userOpHash,
+      entryPoint,
+      userOperation: userOp,
+    });
+  }
+
+  /**
+   * Notifies subscribers about ops sent on chain
+   * @param bundle entries of the bundle
+   * @param userOpHashes hashes of the entries, in the same order
+   * @param transactionHash hash of the handleOps transaction
+   */
+  notifyBundledUserOps(
+    bundle: MempoolEntry[],
+    userOpHashes: string[],
+    transactionHash: string
+  ): void {
+    bundle.forEach((entry, index) => {
+      const userOpHash = userOpHashes[index];
+      if (!userOpHash) {
+        return;
+      }
+      this.notify("bundledUserOperations", {
+        userOpHash,
+        entryPoint: entry.entryPoint,
+        userOperation: entry.userOp,
+        transactionHash,
+      });
+    });
+  }
+
+  notifyReceipt(receipt: UserOperationReceiptNotification): void {
+    this.notify("userOperationReceipts", receipt);
+  }
+
+  // INTERNAL METHODS
+
+  private notify(
+    topic: SubscriptionTopic,
+    payload: UserOperationNotification | UserOperationReceiptNotification
+  ): void {
+    for (const [id, subscription] of this.subscriptions) {
+      if (
+        subscription.topic !== topic ||
+        !this.matchFilter(subscription.filter, payload)
+      ) {
+        continue;
+      }
+      try {
+        subscription.listener(id, payload);
+      } catch (err) {
+        this.logger.error(err, `Failed to notify subscription ${id}`);
+      }
+    }
+  }
+
+  private matchFilter(
+    filter: SubscriptionFilter,
+    payload: UserOperationNotification | UserOperationReceiptNotification
+  ): boolean {
+    const sender =
+      "userOperation" in payload
+        ? payload.userOperation.sender
+        : payload.sender;
+    const paymaster =
+      "userOperation" in payload
+        ? getAddr(payload.userOperation.paymasterAndData)
+        : payload.paymaster;
+    const isEqual = (a?: string, b?: string): boolean =>
+      a?.toLowerCase() === b?.toLowerCase();
+
+    return (
+      (!filter.sender || isEqual(filter.sender, sender)) &&
+      (!filter.paymaster || isEqual(filter.paymaster, paymaster)) &&
+      (!filter.userOpHash || isEqual(filter.userOpHash, payload.userOpHash))
+    );
+  }
+}
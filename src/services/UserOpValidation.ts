@@ -1,5 +1,5 @@
-import { BytesLike, BigNumberish, ethers, providers } from "ethers";
-import { Interface, hexZeroPad } from "ethers/lib/utils";
+import { BigNumber, BytesLike, BigNumberish, ethers, providers } from "ethers";
+import { Interface } from "ethers/lib/utils";
 import * as RpcErrorCodes from "../types/api/errors/rpc-error-codes";
 import RpcError from "../types/api/errors/rpc-error";
 import { EntryPoint__factory } from "../types/executor/contracts/factories/EntryPoint__factory";
@@ -10,11 +10,17 @@ import {
 } from "../types/executor/contracts";
 import { IPaymaster__factory } from "../types/executor/contracts/factories/IPaymaster__factory";
 import { UserOperationStruct } from "../types/executor/contracts/EntryPoint";
-import { NetworkName } from "../types/networks";
-import { getAddr } from "../utils";
-import { GethTracer } from "./GethTracer";
+import { NETWORK_NAME_TO_CHAIN_ID, NetworkName } from "../types/networks";
+import { getAddr, getUserOpHash } from "../utils";
+import { GethTracer, TracerBackend } from "./GethTracer";
 import { ReputationService } from "./ReputationService";
-import { TracerCall } from "../models/ExecutorInterface";
+import { ValidationCacheService } from "./ValidationCacheService";
+import { Config, NetworkConfig } from "../common/config";
+import {
+  TracerCall,
+  TracerResult,
+  TracerStorageAccess,
+} from "../models/ExecutorInterface";
 
 export interface ReferencedCodeHashes {
   // addresses accessed during this user operation
@@ -29,11 +35,55 @@ export interface StakeInfo {
   unstakeDelaySec: BigNumberish;
 }
 
+// ERC-7562 storage rules, reported in the `rule` field of validation errors
+export const StorageRules = {
+  // associated storage of an account which isn't deployed yet is allowed if the factory deploying it is staked
+  STAKED_FACTORY: "STO-022",
+  // a staked entity may access its own storage, the storage of other entities is never accessible
+  ENTITY_STORAGE: "STO-031",
+  // a staked entity may access storage associated with it in any non-entity contract
+  ENTITY_ASSOCIATED_STORAGE: "STO-032",
+  // a staked entity may read any storage of non-entity contracts
+  NON_ENTITY_READ: "STO-033",
+};
+
+// ERC-7562 opcode and call rules, reported in the `rule` field of validation errors
+export const OpcodeRules = {
+  BANNED_OPCODE: "OP-011",
+  // GAS must be followed by a CALL
+  GAS: "OP-012",
+  UNASSIGNED_OPCODE: "OP-013",
+  OUT_OF_GAS: "OP-020",
+  // CREATE2 can only be used once, by the factory
+  CREATE2: "OP-031",
+  // EXTCODE* and CALL* to an address without code, other than the sender
+  CODELESS_ACCESS: "OP-041",
+  // the entry point can only be called with depositTo, or the fallback from the sender
+  ENTRY_POINT_CALL: "OP-054",
+  CALL_WITH_VALUE: "OP-061",
+  PRECOMPILE: "OP-062",
+  // BALANCE and SELFBALANCE are allowed to staked entities only
+  BALANCE: "OP-080",
+};
+
+// precompiles accessing no state: 0x01-0x0a and the RIP-7212 secp256r1 verifier
+const ALLOWED_PRECOMPILES = [...Array(10).keys()]
+  .map((i) => i + 1)
+  .concat(0x100);
+
+type ValidationEntities = {
+  factory: StakeInfo | null;
+  account: StakeInfo;
+  paymaster: StakeInfo | null;
+};
+
 export interface UserOpValidationResult {
   returnInfo: {
     preOpGas: BigNumberish;
     prefund: BigNumberish;
     deadline: number;
+    validAfter?: number;
+    validUntil?: number;
   };
   senderInfo: StakeInfo;
   factoryInfo: StakeInfo | null;
@@ -44,15 +94,46 @@ export interface UserOpValidationResult {
 
 export class UserOpValidationService {
   private gethTracer: GethTracer;
+  private networkConfig: NetworkConfig;
+  private chainId: number;
 
   constructor(
     private provider: providers.Provider,
     private reputationService: ReputationService,
-    private network: NetworkName
+    private validationCacheService: ValidationCacheService,
+    private network: NetworkName,
+    private config: Config
   ) {
     this.gethTracer = new GethTracer(
       this.provider as providers.JsonRpcProvider
     );
+    this.networkConfig = this.config.getNetworkConfig(network)!;
+    this.chainId = Number(NETWORK_NAME_TO_CHAIN_ID[network]);
+  }
+
+  /**
+   * Picks the backend tracing the validation, throws if the node supports none
+   * Returns null in unsafe mode, where the validation is not traced
+   */
+  async init(): Promise<TracerBackend | null> {
+    if (this.isUnsafe()) {
+      return null;
+    }
+    return await this.gethTracer.init(
+      this.networkConfig.tracer,
+      this.networkConfig.nativeTracer
+    );
+  }
+
+  isUnsafe(): boolean {
+    return this.networkConfig.unsafeMode;
+  }
+
+  /**
+   * Backend tracing the validation, null in unsafe mode
+   */
+  getTracerBackend(): TracerBackend | null {
+    return this.isUnsafe() ? null : this.gethTracer.getBackend();
   }
 
   async callSimulateValidation(
@@ -69,11 +150,30 @@ export class UserOpValidationService {
     return this.parseErrorResult(userOp, errorResult);
   }
 
+  /**
+   * Runs simulateValidation through the tracer, and checks the ERC-7562 rules and the code of the referenced contracts
+   * In unsafe mode, only runs simulateValidation
+   * Second validations (with a codehash) reuse the cached result while the referenced contracts are untouched
+   * @param userOp
+   * @param entryPoint
+   * @param codehash hash of the referenced contracts at the first validation
+   */
   async simulateCompleteValidation(
     userOp: UserOperationStruct,
     entryPoint: string,
     codehash?: string
   ): Promise<UserOpValidationResult> {
+    if (this.isUnsafe()) {
+      return await this.callSimulateValidation(userOp, entryPoint);
+    }
+    const userOpHash = getUserOpHash(userOp, entryPoint, this.chainId);
+    if (codehash) {
+      const cached = this.validationCacheService.get(userOpHash, codehash);
+      if (cached) {
+        return cached;
+      }
+    }
+    const epoch = this.validationCacheService.getEpoch();
     entryPoint = entryPoint.toLocaleLowerCase();
     const entryPointContract = EntryPoint__factory.connect(
       entryPoint,
@@ -106,103 +206,20 @@ export class UserOpValidationService {
       paymaster: validationResult.paymasterInfo,
     };
 
-    for (let [address, trace] of Object.entries(traceCall.trace)) {
-      address = address.toLowerCase();
-      const title = this.numberToEntityTitle(
-        trace?.number
-      ) as keyof typeof stakeInfoEntities;
-      const violation = trace.violation || {};
-      for (const [opcode, count] of Object.entries(violation)) {
-        if (opcode === "CREATE2" && Number(count) < 2 && title === "factory") {
-          continue;
-        }
-        throw new RpcError(
-          `${title} uses banned opcode: ${opcode}`,
-          RpcErrorCodes.INVALID_OPCODE
-        );
-      }
-      const value = trace.value ?? 0;
-      if (value > 0 && entryPoint !== address) {
-        throw (
-          (new RpcError("May not may CALL with value"),
-          RpcErrorCodes.INVALID_OPCODE)
-        );
-      }
-    }
-
-    for (let [address, trace] of Object.entries(traceCall.trace)) {
-      address = address.toLowerCase();
-      const title = this.numberToEntityTitle(
-        trace?.number
-      ) as keyof typeof stakeInfoEntities;
-      const entity = stakeInfoEntities[title];
-      const isSlotAssociatedWith = (slot: string, addr: string): boolean => {
-        if (!trace.keccak) {
-          return false;
-        }
-
-        const addrPadded = hexZeroPad(addr.toLowerCase(), 32);
-        const keccak = Object.keys(trace.keccak).find((k) =>
-          k.startsWith(addrPadded)
-        );
-        if (!keccak) {
-          return false;
-        }
-        const kSlot = ethers.BigNumber.from(`0x${trace.keccak[keccak]}`);
-        const bnSlot = ethers.BigNumber.from(`0x${slot}`);
-        return bnSlot.gte(kSlot) && bnSlot.lt(kSlot.add(128));
-      };
-      const { paymaster, account } = stakeInfoEntities;
-      if (address === entryPoint) {
-        continue;
-      }
-      if (address === account.addr.toLowerCase()) {
-        continue;
-      }
-
-      let validationFailed = false;
-      if (address === paymaster?.addr.toLowerCase()) {
-        if (trace.storage && Object.values(trace.storage).length) {
-          validationFailed = true;
-        }
-      }
-      if (!trace.storage) {
-        continue;
-      }
+    await this.checkOpcodeRules(
+      userOp,
+      entryPoint,
+      traceCall,
+      stakeInfoEntities
+    );
+    await this.checkStorageRules(
+      userOp,
+      entryPoint,
+      traceCall,
+      stakeInfoEntities,
+      validationResult.aggregatorInfo
+    );
 
-      if (!validationFailed) {
-        for (const slot of Object.keys(trace.storage)) {
-          if (isSlotAssociatedWith(slot, account.addr)) {
-            validationFailed = userOp.initCode.length > 2;
-          } else if (isSlotAssociatedWith(slot, entity?.addr ?? "")) {
-            validationFailed = true;
-          } else if (address.toLowerCase() === entity?.addr!.toLowerCase()) {
-            validationFailed = true;
-          } else {
-            throw new RpcError(
-              `unstaked ${title} entity ${address} accessed slot`,
-              RpcErrorCodes.INVALID_OPCODE,
-              {
-                [title]: address,
-              }
-            );
-          }
-        }
-      }
-      if (validationFailed) {
-        const unstaked =
-          !entity || (await this.reputationService.checkStake(entity));
-        if (unstaked != null) {
-          throw new RpcError(
-            `unstaked ${title} entity ${address} accessed slot`,
-            RpcErrorCodes.INVALID_OPCODE,
-            {
-              [title]: address,
-            }
-          );
-        }
-      }
-    }
     const parsedCalls = this.parseCalls(traceCall.calls);
 
     const { paymaster } = stakeInfoEntities;
@@ -222,7 +239,7 @@ export class UserOpValidationService {
             throw new RpcError(
               "unstake paymaster must not return context",
               RpcErrorCodes.INVALID_OPCODE,
-              { paymaster: paymaster!.addr }
+              { rule: "EREP-050", paymaster: paymaster!.addr }
             );
           }
         }
@@ -259,13 +276,39 @@ export class UserOpValidationService {
       );
     }
 
-    return {
+    const result = {
       ...validationResult,
       referencedContracts: {
         addresses,
         hash,
       },
     };
+    this.validationCacheService.set(userOpHash, result, epoch);
+    return result;
+  }
+
+  /**
+   * Checks the signature of an op using an aggregator, throws if the aggregator rejects it
+   * @param userOp
+   * @param aggregator address of the aggregator returned by simulateValidation
+   */
+  async validateAggregatorSignature(
+    userOp: UserOperationStruct,
+    aggregator: string
+  ): Promise<void> {
+    const aggregatorContract = IAggregator__factory.connect(
+      aggregator,
+      this.provider
+    );
+    try {
+      await aggregatorContract.validateUserOpSignature(userOp);
+    } catch (err) {
+      throw new RpcError(
+        "Invalid signature for aggregator",
+        RpcErrorCodes.INVALID_SIGNATURE_AGGREGATOR,
+        { aggregator }
+      );
+    }
   }
 
   parseErrorResult(
@@ -413,6 +456,326 @@ export class UserOpValidationService {
     return out;
   }
 
+  /**
+   * Checks the ERC-7562 opcode and call rules in each validation phase: banned and unassigned opcodes,
+   * GAS not followed by a CALL, out of gas, CREATE2 outside of the factory, access to addresses without code
+   * or to unknown precompiles, calls into the entry point and calls with value
+   * Throws an RpcError with the violated rule in `data.rule`
+   * @param userOp
+   * @param entryPoint lowercase address of the entry point
+   * @param traceCall
+   * @param entities
+   */
+  private async checkOpcodeRules(
+    userOp: UserOperationStruct,
+    entryPoint: string,
+    traceCall: TracerResult,
+    entities: ValidationEntities
+  ): Promise<void> {
+    const sender = entities.account.addr.toLowerCase();
+    const factory = entities.factory?.addr.toLowerCase();
+    const isStaked = this.stakeChecker();
+    const violation = (
+      phase: number,
+      rule: string,
+      message: string,
+      data: { [key: string]: any }
+    ): RpcError => {
+      const title = this.numberToEntityTitle(phase) as keyof ValidationEntities;
+      const entity = entities[title];
+      return new RpcError(
+        `${title} ${entity?.addr} ${message} (${rule})`,
+        RpcErrorCodes.INVALID_OPCODE,
+        { rule, [title]: entity?.addr, ...data }
+      );
+    };
+
+    for (const { phase, address, opcode, count } of traceCall.opcodes ?? []) {
+      const title = this.numberToEntityTitle(phase);
+      const data = { opcode, contract: address };
+      if (opcode === "CREATE2") {
+        if (
+          title === "factory" &&
+          count < 2 &&
+          BigNumber.from(userOp.initCode.length).gt(2)
+        ) {
+          continue;
+        }
+        throw violation(phase, OpcodeRules.CREATE2, "uses CREATE2", data);
+      }
+      if (opcode === "GAS") {
+        throw violation(
+          phase,
+          OpcodeRules.GAS,
+          "uses GAS without a following CALL",
+          data
+        );
+      }
+      if (opcode.startsWith("opcode ")) {
+        throw violation(
+          phase,
+          OpcodeRules.UNASSIGNED_OPCODE,
+          `uses unassigned ${opcode}`,
+          data
+        );
+      }
+      if (opcode === "BALANCE" || opcode === "SELFBALANCE") {
+        const entity = entities[title as keyof ValidationEntities];
+        if (await isStaked(entity)) {
+          continue;
+        }
+        throw violation(
+          phase,
+          OpcodeRules.BALANCE,
+          `uses ${opcode} while unstaked`,
+          data
+        );
+      }
+      throw violation(
+        phase,
+        OpcodeRules.BANNED_OPCODE,
+        `uses banned opcode ${opcode}`,
+        data
+      );
+    }
+
+    for (const { phase, address } of traceCall.outOfGas ?? []) {
+      throw violation(phase, OpcodeRules.OUT_OF_GAS, "ran out of gas", {
+        contract: address,
+      });
+    }
+
+    for (const access of traceCall.codelessAccesses ?? []) {
+      const target = access.target.toLowerCase();
+      // the sender can be accessed before being deployed by the factory
+      if (target === sender) {
+        continue;
+      }
+      const data = {
+        opcode: access.opcode,
+        contract: access.address,
+        target,
+      };
+      if (BigNumber.from(target).lt(0x400)) {
+        if (
+          ALLOWED_PRECOMPILES.some((precompile) =>
+            BigNumber.from(target).eq(precompile)
+          )
+        ) {
+          continue;
+        }
+        throw violation(
+          access.phase,
+          OpcodeRules.PRECOMPILE,
+          `accesses unsupported precompile ${target}`,
+          data
+        );
+      }
+      throw violation(
+        access.phase,
+        OpcodeRules.CODELESS_ACCESS,
+        `uses ${access.opcode} on ${target} which has no code`,
+        data
+      );
+    }
+
+    const depositTo =
+      EntryPoint__factory.createInterface().getSighash("depositTo");
+    for (const call of traceCall.calls) {
+      // exits of calls and calls of the entry point itself
+      if (!call.to || !call.from || call.from.toLowerCase() === entryPoint) {
+        continue;
+      }
+      const from = call.from.toLowerCase();
+      const to = call.to.toLowerCase();
+      const phase = call.phase ?? 0;
+      const data = { contract: from, target: to, method: call.method };
+      if (to === entryPoint) {
+        if (
+          (call.method === depositTo &&
+            (from === sender || from === factory)) ||
+          (call.method === "0x" && from === sender)
+        ) {
+          continue;
+        }
+        throw violation(
+          phase,
+          OpcodeRules.ENTRY_POINT_CALL,
+          `calls the entry point with ${call.method}`,
+          data
+        );
+      }
+      if (BigNumber.from(call.value ?? 0).gt(0)) {
+        throw violation(
+          phase,
+          OpcodeRules.CALL_WITH_VALUE,
+          `calls ${to} with value`,
+          data
+        );
+      }
+    }
+  }
+
+  /**
+   * Checks the ERC-7562 storage rules against the slots read and written in each validation phase
+   * The storage of the sender is always accessible, its associated storage (in any contract) only if
+   * it is already deployed or its factory is staked. Other storage is only accessible to staked entities:
+   * their own storage, storage associated with them, and read-only storage of non-entity contracts
+   * Throws an RpcError with the violated rule in `data.rule`
+   * @param userOp
+   * @param entryPoint lowercase address of the entry point
+   * @param traceCall
+   * @param entities
+   * @param aggregator
+   */
+  private async checkStorageRules(
+    userOp: UserOperationStruct,
+    entryPoint: string,
+    traceCall: TracerResult,
+    entities: ValidationEntities,
+    aggregator: StakeInfo | null
+  ): Promise<void> {
+    const sender = entities.account.addr.toLowerCase();
+    const entityContracts = [entities.factory, entities.paymaster, aggregator]
+      .filter((entity): entity is StakeInfo => entity != null)
+      .map((entity) => entity.addr.toLowerCase());
+    const slotsOf = this.getAssociatedSlots(traceCall);
+    const isAssociated = (slot: string, addr: string): boolean => {
+      const bnSlot = ethers.BigNumber.from(`0x${slot}`);
+      if (bnSlot.eq(addr)) {
+        return true;
+      }
+      return (slotsOf.get(addr.toLowerCase()) ?? []).some(
+        (base) => bnSlot.gte(base) && bnSlot.lte(base.add(128))
+      );
+    };
+    const isStaked = this.stakeChecker();
+
+    const getViolation = async (
+      access: TracerStorageAccess,
+      entity: StakeInfo | null
+    ): Promise<string | null> => {
+      const address = access.address.toLowerCase();
+      if (address === sender) {
+        return null;
+      }
+      if (isAssociated(access.slot, sender)) {
+        if (BigNumber.from(userOp.initCode.length).lte(2)) {
+          return null;
+        }
+        return (await isStaked(entities.factory))
+          ? null
+          : StorageRules.STAKED_FACTORY;
+      }
+      if (!entity) {
+        return StorageRules.ENTITY_STORAGE;
+      }
+      if (address === entity.addr.toLowerCase()) {
+        return (await isStaked(entity)) ? null : StorageRules.ENTITY_STORAGE;
+      }
+      if (entityContracts.includes(address)) {
+        // storage of another entity
+        return StorageRules.ENTITY_STORAGE;
+      }
+      if (isAssociated(access.slot, entity.addr)) {
+        return (await isStaked(entity))
+          ? null
+          : StorageRules.ENTITY_ASSOCIATED_STORAGE;
+      }
+      return !access.write && (await isStaked(entity))
+        ? null
+        : StorageRules.NON_ENTITY_READ;
+    };
+
+    for (const access of this.getStorageAccesses(traceCall)) {
+      // EntryPoint storage (deposits, nonces) is checked by the EntryPoint itself
+      if (access.address.toLowerCase() === entryPoint) {
+        continue;
+      }
+      const title = this.numberToEntityTitle(
+        access.phase
+      ) as keyof ValidationEntities;
+      const entity = entities[title];
+      const rule = await getViolation(access, entity);
+      if (rule) {
+        throw new RpcError(
+          `${title} ${entity?.addr} ${access.write ? "wrote" : "read"} slot 0x${
+            access.slot
+          } of ${access.address} (${rule})`,
+          RpcErrorCodes.INVALID_OPCODE,
+          {
+            rule,
+            [title]: entity?.addr,
+            contract: access.address,
+            slot: `0x${access.slot}`,
+          }
+        );
+      }
+    }
+  }
+
+  /**
+   * Returns the storage accesses of the trace
+   * Tracers not reporting accesses per phase fall back to the storage of each contract, taken as writes
+   * @param traceCall
+   */
+  private getStorageAccesses(traceCall: TracerResult): TracerStorageAccess[] {
+    if (traceCall.storageAccesses) {
+      return traceCall.storageAccesses;
+    }
+    return Object.entries(traceCall.trace).flatMap(([address, trace]) =>
+      Object.keys(trace.storage ?? {}).map((slot) => ({
+        phase: trace.number ?? 0,
+        address,
+        slot,
+        write: true,
+      }))
+    );
+  }
+
+  /**
+   * Base slots of the mappings keyed by each address: keccak(address || x) for every keccak of the trace
+   * @param traceCall
+   */
+  private getAssociatedSlots(
+    traceCall: TracerResult
+  ): Map<string, BigNumber[]> {
+    const slots = new Map<string, BigNumber[]>();
+    for (const trace of Object.values(traceCall.trace)) {
+      for (const [input, hash] of Object.entries(trace.keccak ?? {})) {
+        // 0x, 12 zero bytes of padding and a 20 bytes address
+        if (
+          input.length < 66 ||
+          !input.startsWith("0x000000000000000000000000")
+        ) {
+          continue;
+        }
+        const addr = `0x${input.slice(26, 66)}`.toLowerCase();
+        slots.set(addr, [
+          ...(slots.get(addr) ?? []),
+          BigNumber.from(`0x${hash}`),
+        ]);
+      }
+    }
+    return slots;
+  }
+
+  /**
+   * Returns a function telling whether an entity is staked, caching the results of one validation
+   */
+  private stakeChecker(): (entity: StakeInfo | null) => Promise<boolean> {
+    const staked = new Map<string, boolean>();
+    return async (entity) => {
+      if (!entity) {
+        return false;
+      }
+      if (!staked.has(entity.addr)) {
+        staked.set(entity.addr, await this.reputationService.isStaked(entity));
+      }
+      return staked.get(entity.addr)!;
+    };
+  }
+
   numberToEntityTitle(id?: number): string {
     if (id == null) {
       id = 0;
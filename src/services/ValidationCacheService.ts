@@ -0,0 +1,216 @@
+import { providers, utils } from "ethers";
+import { Mutex } from "async-mutex";
+import { NetworkName } from "../types/networks";
+import { Config, NetworkConfig } from "../common/config";
+import { Logger, TracerStateDiff } from "../models/ExecutorInterface";
+import { BlockNotification, BlockWatcherService } from "./BlockWatcherService";
+import { UserOpValidationResult } from "./UserOpValidation";
+
+interface CachedValidation {
+  result: UserOpValidationResult;
+  // referenced contracts and entities, any change to them invalidates the result
+  addresses: Set<string>;
+  expiresAt: number;
+}
+
+export class ValidationCacheService {
+  // by `${userOpHash}:${referenced code hash}`
+  private entries = new Map<string, CachedValidation>();
+  // incremented on every new block, validations started before a block are not cached
+  private epoch = 0;
+  // last processed block, the cache is dropped if the next one isn't its child
+  private lastBlock?: { number: number; hash: string };
+  private networkConfig: NetworkConfig;
+  private entryPoints: string[];
+  private mutex: Mutex;
+  private unsubscribeBlocks?: () => void;
+
+  constructor(
+    private network: NetworkName,
+    private provider: providers.JsonRpcProvider,
+    private blockWatcherService: BlockWatcherService,
+    private config: Config,
+    private logger: Logger
+  ) {
+    this.networkConfig = this.config.getNetworkConfig(network)!;
+    this.mutex = new Mutex();
+    this.entryPoints = this.networkConfig.entryPoints.map((address) =>
+      address.toLowerCase()
+    );
+  }
+
+  /**
+   * Follows new blocks to invalidate the cached results, if the cache is enabled
+   */
+  start(): void {
+    if (this.unsubscribeBlocks || !this.isEnabled()) {
+      return;
+    }
+    this.unsubscribeBlocks = this.blockWatcherService.subscribe(this.onBlock);
+  }
+
+  stop(): void {
+    this.unsubscribeBlocks?.();
+    this.unsubscribeBlocks = undefined;
+    this.lastBlock = undefined;
+    this.entries.clear();
+  }
+
+  /**
+   * The cache is disabled in unsafe mode, where the validation isn't traced, and by a zero TTL
+   */
+  isEnabled(): boolean {
+    return (
+      !this.networkConfig.unsafeMode &&
+      this.networkConfig.validationCacheTtl > 0
+    );
+  }
+
+  /**
+   * Returns the result of a previous validation of the op, if the referenced contracts kept the same code
+   * and no block touched them since
+   * @param userOpHash
+   * @param codehash hash of the referenced contracts at the first validation
+   */
+  get(userOpHash: string, codehash: string): UserOpValidationResult | null {
+    const key = `${userOpHash}:${codehash}`;
+    const cached = this.entries.get(key);
+    if (!cached) {
+      return null;
+    }
+    if (cached.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return cached.result;
+  }
+
+  /**
+   * Epoch to pass to `set`, must be read before the validation starts
+   */
+  getEpoch(): number {
+    return this.epoch;
+  }
+
+  /**
+   * Caches the result of a validation, unless a block was received since it started
+   * @param userOpHash
+   * @param result
+   * @param epoch epoch at the start of the validation
+   */
+  set(userOpHash: string, result: UserOpValidationResult, epoch: number): void {
+    const { referencedContracts } = result;
+    if (!this.isEnabled() || epoch !== this.epoch || !referencedContracts) {
+      return;
+    }
+    const addresses = new Set(
+      [
+        ...referencedContracts.addresses,
+        result.senderInfo.addr,
+        result.factoryInfo?.addr,
+        result.paymasterInfo?.addr,
+        result.aggregatorInfo?.addr,
+      ]
+        .filter((address): address is string => address != null)
+        .map((address) => address.toLowerCase())
+        // every bundle changes the entry point, its events tell which entities were touched
+        .filter((address) => !this.entryPoints.includes(address))
+    );
+    this.entries.set(`${userOpHash}:${referencedContracts.hash}`, {
+      result,
+      addresses,
+      expiresAt: Date.now() + this.networkConfig.validationCacheTtl,
+    });
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  // INTERNAL METHODS
+
+  private onBlock = (block: BlockNotification): void => {
+    this.epoch++;
+    void this.mutex.runExclusive(() => this.invalidate(block.number));
+  };
+
+  /**
+   * Drops the expired results, and the results referencing an address touched by the block
+   * Everything is dropped if the block can't be fetched, if blocks were missed or if the previous block was reorged
+   * Tracing a block costs about as much as revalidating each of its transactions, so the block is only traced
+   * when it has fewer transactions than there are cached results, the cache is dropped otherwise
+   * @param blockNumber
+   */
+  private async invalidate(blockNumber: number): Promise<void> {
+    const previousBlock = this.lastBlock;
+    this.lastBlock = undefined;
+    let touched: Set<string>;
+    try {
+      const block = await this.provider.getBlock(blockNumber);
+      this.lastBlock = { number: block.number, hash: block.hash };
+      if (!this.entries.size) {
+        return;
+      }
+      if (
+        !previousBlock ||
+        block.number !== previousBlock.number + 1 ||
+        block.parentHash !== previousBlock.hash ||
+        block.transactions.length >= this.entries.size
+      ) {
+        this.entries.clear();
+        return;
+      }
+      touched = await this.getTouchedAddresses(block.hash);
+    } catch (err) {
+      this.logger.error(err, `Failed to fetch block ${blockNumber}`);
+      this.entries.clear();
+      return;
+    }
+    const now = Date.now();
+    for (const [key, cached] of this.entries) {
+      if (
+        cached.expiresAt <= now ||
+        [...cached.addresses].some((address) => touched.has(address))
+      ) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Accounts whose balance, nonce, code or storage was changed by the block, internal calls included
+   * Addresses indexed in the logs of the entry points are included, they are the accounts whose deposit,
+   * stake or nonce changed
+   * @param blockHash
+   */
+  private async getTouchedAddresses(blockHash: string): Promise<Set<string>> {
+    const [diffs, logs] = await Promise.all([
+      this.provider.send("debug_traceBlockByHash", [
+        blockHash,
+        { tracer: "prestateTracer", tracerConfig: { diffMode: true } },
+      ]) as Promise<TracerStateDiff[]>,
+      this.provider.getLogs({ blockHash }),
+    ]);
+    const touched = new Set<string>();
+    for (const { result } of diffs) {
+      for (const address of [
+        ...Object.keys(result.pre),
+        ...Object.keys(result.post),
+      ]) {
+        touched.add(address.toLowerCase());
+      }
+    }
+    for (const log of logs) {
+      const address = log.address.toLowerCase();
+      if (!this.entryPoints.includes(address)) {
+        continue;
+      }
+      for (const topic of log.topics.slice(1)) {
+        if (utils.hexDataSlice(topic, 0, 12) === utils.hexZeroPad("0x", 12)) {
+          touched.add(utils.hexDataSlice(topic, 12).toLowerCase());
+        }
+      }
+    }
+    return touched;
+  }
+}
@@ -2,3 +2,10 @@ export * from "./UserOpValidation";
 export * from "./MempoolService";
 export * from "./BundlingService";
 export * from "./ReputationService";
+export * from "./SubscriptionService";
+export * from "./BundleTrackerService";
+export * from "./FeeOracle";
+export * from "./RelayerService";
+export * from "./BalanceWatchdogService";
+export * from "./BlockWatcherService";
+export * from "./ValidationCacheService";
@@ -1,5 +1,6 @@
 import { BigNumberish, providers } from "ethers";
 import { UserOperationStruct } from "../executor/contracts/EntryPoint";
+import { MempoolEviction } from "../../models/EntitiesInterface";
 
 export type EstimatedUserOperationGas = {
   preVerificationGas: BigNumberish;
@@ -8,12 +9,30 @@ export type EstimatedUserOperationGas = {
   deadline?: BigNumberish;
 };
 
+// block fields are null while the user op is pending in the mempool
 export type UserOperationByHashResponse = {
   userOperation: UserOperationStruct;
   entryPoint: string;
-  blockNumber: number;
-  blockHash: string;
-  transactionHash: string;
+  blockNumber: number | null;
+  blockHash: string | null;
+  transactionHash: string | null;
+};
+
+export type UserOperationStatus = {
+  status: "pending" | "submitted" | "included" | "failed" | "dropped";
+  // latest bundle transaction including the user op
+  transactionHash?: string;
+  blockHash?: string;
+  blockNumber?: number;
+  reason?: string;
+};
+
+export type BundlerStatus = {
+  // "unsafe" validates with simulateValidation only, without the ERC-7562 rules
+  validationMode: "safe" | "unsafe";
+  // backend tracing the validation, null in unsafe mode
+  tracer: string | null;
+  entryPoints: string[];
 };
 
 export type UserOperationReceipt = {
@@ -29,14 +48,51 @@ export type UserOperationReceipt = {
   receipt: providers.TransactionReceipt;
 };
 
+export type MempoolDump = {
+  entries: UserOperationStruct[];
+  // latest evictions, most recent last
+  evicted: MempoolEviction[];
+};
+
+export type RelayerBalancesDump = {
+  paused: boolean;
+  requiredBalance: string;
+  lastCheck: number;
+  relayers: {
+    address: string;
+    balance: string;
+    pending: number;
+    state: "ok" | "warning" | "insufficient";
+  }[];
+};
+
 export type SupportedEntryPoint = string[];
 
 export type EthChainIdResponse = { chainId: number };
 
-export type BundlingMode = "auto" | "manual";
+export type BundlingMode = "auto" | "manual" | "block";
 
 export interface ServerConfig {
   enableRequestLogging: boolean;
   port: number;
   host: string;
 }
+
+export type JsonRpcId = string | number | null;
+
+export interface JsonRpcRequest {
+  jsonrpc: "2.0";
+  method: string;
+  params?: any[] | null;
+  id?: JsonRpcId;
+}
+
+export interface JsonRpcErrorObject {
+  code: number;
+  message: string;
+  data?: any;
+}
+
+export type JsonRpcResponse =
+  | { jsonrpc: "2.0"; id: JsonRpcId; result: any }
+  | { jsonrpc: "2.0"; id: JsonRpcId; error: JsonRpcErrorObject };
@@ -1,3 +1,4 @@
+import { BigNumber, BigNumberish } from "ethers";
 import {
   BytesLike,
   defaultAbiCoder,
@@ -109,6 +110,25 @@ export function packUserOp(
   return encode(typevalues, forSignature);
 }
 
+/**
+ * Computes the userOpHash as EntryPoint.getUserOpHash does, without calling the node
+ * @param op
+ * @param entryPoint
+ * @param chainId
+ */
+export function getUserOpHash(
+  op: UserOperationStruct,
+  entryPoint: string,
+  chainId: number
+): string {
+  const userOpHash = keccak256(packUserOp(op, true));
+  const encoded = defaultAbiCoder.encode(
+    ["bytes32", "address", "uint256"],
+    [userOpHash, entryPoint, chainId]
+  );
+  return keccak256(encoded);
+}
+
 /**
  * hexlify all members of object, recursively
  * @param obj
@@ -146,6 +166,25 @@ export function extractAddrFromInitCode(data?: BytesLike): string | undefined {
   return undefined;
 }
 
+/**
+ * Gas price paid by the op to the bundler, same as EntryPoint.getUserOpGasPrice
+ * @param userOp
+ * @param baseFee
+ */
+export function getUserOpGasPrice(
+  userOp: UserOperationStruct,
+  baseFee: BigNumberish
+): BigNumber {
+  const maxFeePerGas = BigNumber.from(userOp.maxFeePerGas);
+  const maxPriorityFeePerGas = BigNumber.from(userOp.maxPriorityFeePerGas);
+  if (maxFeePerGas.eq(maxPriorityFeePerGas)) {
+    // legacy mode (for networks that don't support basefee opcode)
+    return maxFeePerGas;
+  }
+  const gasPrice = maxPriorityFeePerGas.add(baseFee);
+  return maxFeePerGas.lt(gasPrice) ? maxFeePerGas : gasPrice;
+}
+
 export function now(): number {
   return new Date().getTime();
 }
@@ -0,0 +1,430 @@
+import { strict as assert } from "node:assert";
+import { beforeEach, describe, it } from "node:test";
+import {
+  BigNumber,
+  constants,
+  providers,
+  Transaction,
+  utils,
+  Wallet,
+} from "ethers";
+import { bundlerDefaultConfigs, Config } from "../src/common/config";
+import { LocalDbController } from "../src/db/localDb";
+import { BundleStatus } from "../src/models/EntitiesInterface";
+import { BundleTrackerService } from "../src/services/BundleTrackerService";
+import { Eip1559FeeOracle } from "../src/services/FeeOracle";
+import { MempoolService } from "../src/services/MempoolService";
+import { Relayer, RelayerService } from "../src/services/RelayerService";
+import { ReputationService } from "../src/services/ReputationService";
+import {
+  SubscriptionService,
+  UserOperationReceiptNotification,
+} from "../src/services/SubscriptionService";
+import { UserOpValidationService } from "../src/services/UserOpValidation";
+import { EntryPoint__factory } from "../src/types/executor/contracts";
+import RpcError from "../src/types/api/errors/rpc-error";
+import * as RpcErrorCodes from "../src/types/api/errors/rpc-error-codes";
+import {
+  createBlock,
+  createConfig,
+  createUserOp,
+  entryPoint,
+  logger,
+  StubProvider,
+} from "./helpers";
+
+const sender = "0x" + "1".repeat(40);
+const relayerKey = "0x" + "a".repeat(64);
+const bundleHash = "0x" + "b".repeat(64);
+
+/**
+ * Relayer pool made of a single wallet connected to the stub provider
+ */
+class WalletRelayerService extends RelayerService {
+  constructor(private wallet: Wallet, config: Config) {
+    super("dev", wallet.provider as providers.JsonRpcProvider, config, logger);
+  }
+
+  async getRelayers(): Promise<Relayer[]> {
+    return [{ address: this.wallet.address, signer: this.wallet }];
+  }
+}
+
+describe("BundleTrackerService", () => {
+  let blockNumber: number;
+  // nonces consumed on chain, by the relayer and by the sender
+  let relayerNonce: number;
+  let senderNonce: number;
+  // raw receipts and blocks returned by the node, by transaction hash and block number
+  let receipts: { [hash: string]: unknown };
+  let blocks: { [number: number]: { [field: string]: unknown } };
+  let feeHistory: { baseFeePerGas: string[]; reward: string[][] };
+  let sent: Transaction[];
+  let wallet: Wallet;
+  let mempoolService: MempoolService;
+  let reputationService: ReputationService;
+  let subscriptionService: SubscriptionService;
+  let tracker: BundleTrackerService;
+
+  beforeEach(() => {
+    blockNumber = 100;
+    relayerNonce = 0;
+    senderNonce = 0;
+    receipts = {};
+    blocks = {};
+    feeHistory = { baseFeePerGas: ["0x1", "0x1"], reward: [] };
+    sent = [];
+    const provider = new StubProvider({
+      eth_chainId: () => "0x539",
+      eth_blockNumber: () => utils.hexValue(blockNumber),
+      eth_getTransactionCount: () => utils.hexValue(relayerNonce),
+      eth_getTransactionReceipt: ([hash]) => receipts[hash] ?? null,
+      eth_getBlockByNumber: ([tag]) => {
+        const number = BigNumber.from(tag).toNumber();
+        return blocks[number] ?? createBlock(number);
+      },
+      eth_feeHistory: () => feeHistory,
+      eth_maxPriorityFeePerGas: () => "0x1",
+      eth_sendRawTransaction: ([raw]) => {
+        sent.push(utils.parseTransaction(raw));
+        return utils.keccak256(raw);
+      },
+    });
+    const config = createConfig();
+    const db = new LocalDbController("test");
+    reputationService = new ReputationService(
+      db,
+      1337,
+      bundlerDefaultConfigs.minInclusionDenominator,
+      bundlerDefaultConfigs.throttlingSlack,
+      bundlerDefaultConfigs.banSlack,
+      BigNumber.from(bundlerDefaultConfigs.minStake),
+      bundlerDefaultConfigs.minUnstakeDelay
+    );
+    mempoolService = new MempoolService(
+      db,
+      1337,
+      "dev",
+      reputationService,
+      config,
+      logger
+    );
+    // the entry point rejects every op but the next one of the sender
+    const userOpValidationService = {
+      simulateCompleteValidation: async ({ nonce }: { nonce: string }) => {
+        if (!BigNumber.from(nonce).eq(senderNonce)) {
+          throw new RpcError(
+            "AA25 invalid account nonce",
+            RpcErrorCodes.VALIDATION_FAILED
+          );
+        }
+      },
+    } as unknown as UserOpValidationService;
+    subscriptionService = new SubscriptionService(logger);
+    wallet = new Wallet(relayerKey, provider);
+    tracker = new BundleTrackerService(
+      db,
+      1337,
+      "dev",
+      provider,
+      mempoolService,
+      userOpValidationService,
+      reputationService,
+      subscriptionService,
+      new Eip1559FeeOracle(provider),
+      new WalletRelayerService(wallet, config),
+      config,
+      logger
+    );
+  });
+
+  /**
+   * Adds ops of the sender to the mempool, and tracks a bundle of them sent by the relayer
+   * @param nonces nonces of the ops
+   */
+  const trackBundle = async (nonces: number[]): Promise<void> => {
+    for (const nonce of nonces) {
+      await mempoolService.addUserOp(
+        createUserOp(sender, nonce),
+        entryPoint,
+        0,
+        {
+          addr: sender,
+          stake: 0,
+          unstakeDelaySec: 0,
+        }
+      );
+    }
+    const bundle = await mempoolService.getSortedOps();
+    await mempoolService.markSubmitted(bundle, bundleHash);
+    await tracker.track(
+      bundle,
+      bundle.map(({ userOpHash }) => userOpHash!),
+      {
+        hash: bundleHash,
+        from: wallet.address,
+        nonce: 0,
+        to: entryPoint,
+        data: "0x1fad948c",
+        gasLimit: BigNumber.from(1e6),
+        maxFeePerGas: BigNumber.from(1000),
+        maxPriorityFeePerGas: BigNumber.from(100),
+      } as providers.TransactionResponse
+    );
+  };
+
+  /**
+   * Includes the bundle transaction in a block
+   * @param number block number
+   * @param logs raw logs of the transaction
+   */
+  const includeBundle = (number: number, logs: unknown[] = []): void => {
+    const block = createBlock(number);
+    receipts[bundleHash] = {
+      transactionHash: bundleHash,
+      transactionIndex: "0x0",
+      blockHash: block["hash"],
+      blockNumber: block["number"],
+      from: wallet.address,
+      to: entryPoint,
+      contractAddress: null,
+      cumulativeGasUsed: "0x1",
+      gasUsed: "0x1",
+      effectiveGasPrice: "0x1",
+      logs: logs.map((log, index) => ({
+        ...(log as object),
+        blockHash: block["hash"],
+        blockNumber: block["number"],
+        transactionHash: bundleHash,
+        transactionIndex: "0x0",
+        logIndex: utils.hexValue(index),
+        removed: false,
+      })),
+      logsBloom: utils.hexZeroPad("0x", 256),
+      status: "0x1",
+      type: "0x2",
+    };
+    relayerNonce = 1;
+  };
+
+  describe("tracking", () => {
+    /**
+     * UserOperationEvent log of a successful op
+     * @param userOpHash
+     * @param nonce
+     */
+    const userOperationEvent = (
+      userOpHash: string,
+      nonce: number
+    ): { address: string; topics: string[]; data: string } => {
+      const entryPointInterface = EntryPoint__factory.createInterface();
+      return {
+        address: entryPoint,
+        ...entryPointInterface.encodeEventLog(
+          entryPointInterface.getEvent("UserOperationEvent"),
+          [userOpHash, sender, constants.AddressZero, nonce, true, 1000, 100]
+        ),
+      };
+    };
+
+    it("notifies the receipts of a mined bundle and credits its entities once confirmed", async () => {
+      await trackBundle([0]);
+      const [entry] = await mempoolService.getBySender(sender);
+      const notified: UserOperationReceiptNotification[] = [];
+      subscriptionService.subscribe("userOperationReceipts", {}, (_, payload) =>
+        notified.push(payload as UserOperationReceiptNotification)
+      );
+      blockNumber = 101;
+      includeBundle(101, [userOperationEvent(entry!.userOpHash!, 0)]);
+      await tracker.checkPendingBundles();
+
+      assert.equal(notified.length, 1);
+      assert.equal(notified[0]!.userOpHash, entry!.userOpHash);
+      assert.equal(notified[0]!.sender, utils.getAddress(sender));
+      assert.equal(notified[0]!.success, true);
+      assert.ok(BigNumber.from(notified[0]!.actualGasCost).eq(1000));
+      assert.equal(notified[0]!.transactionHash, bundleHash);
+      assert.equal(notified[0]!.blockNumber, 101);
+      assert.equal((await reputationService.fetchOne(sender)).opsIncluded, 0);
+      assert.equal(
+        (await tracker.getBundleByUserOpHash(entry!.userOpHash!))?.status,
+        BundleStatus.MINED
+      );
+
+      blockNumber = 101 + bundlerDefaultConfigs.confirmationDepth;
+      await tracker.checkPendingBundles();
+      assert.equal((await reputationService.fetchOne(sender)).opsIncluded, 1);
+      assert.deepEqual(await mempoolService.getBySender(sender), []);
+    });
+  });
+
+  describe("resubmission", () => {
+    it("replaces a stuck bundle with bumped fees and follows the replacement", async () => {
+      await trackBundle([0]);
+      const [entry] = await mempoolService.getBySender(sender);
+      blockNumber += bundlerDefaultConfigs.resubmitAfterBlocks - 1;
+      await tracker.checkPendingBundles();
+      assert.equal(sent.length, 0);
+
+      blockNumber++;
+      await tracker.checkPendingBundles();
+      assert.equal(sent.length, 1);
+      assert.equal(sent[0]!.nonce, 0);
+      assert.ok(sent[0]!.maxFeePerGas?.eq(1150));
+      assert.ok(sent[0]!.maxPriorityFeePerGas?.eq(115));
+      const replacement = await tracker.getBundleByUserOpHash(
+        entry!.userOpHash!
+      );
+      assert.equal(replacement?.transactionHash, sent[0]!.hash);
+      assert.deepEqual(replacement?.replacedTransactions, [bundleHash]);
+      assert.equal(
+        (await tracker.getBundle(bundleHash))?.status,
+        BundleStatus.REPLACED
+      );
+
+      // the replaced transaction can still be mined
+      includeBundle(blockNumber);
+      await tracker.checkPendingBundles();
+      assert.equal(sent.length, 1);
+      assert.equal(
+        (await tracker.getBundleByUserOpHash(entry!.userOpHash!))?.status,
+        BundleStatus.MINED
+      );
+    });
+
+    it("pays the market fees when they are above the bumped fees", async () => {
+      feeHistory = {
+        baseFeePerGas: ["0x1", utils.hexValue(1000)],
+        reward: [[utils.hexValue(200)]],
+      };
+      await trackBundle([0]);
+      blockNumber += bundlerDefaultConfigs.resubmitAfterBlocks;
+      await tracker.checkPendingBundles();
+
+      assert.equal(sent.length, 1);
+      assert.ok(sent[0]!.maxFeePerGas?.eq(2200));
+      assert.ok(sent[0]!.maxPriorityFeePerGas?.eq(200));
+    });
+  });
+
+  describe("multi-op bundles", () => {
+    it("resubmits a stuck bundle with several ops of a sender", async () => {
+      await trackBundle([0, 1]);
+      blockNumber += bundlerDefaultConfigs.resubmitAfterBlocks;
+      await tracker.checkPendingBundles();
+
+      assert.equal(sent.length, 1);
+      assert.equal(sent[0]!.to, utils.getAddress(entryPoint));
+      assert.equal(sent[0]!.data, "0x1fad948c");
+      assert.equal(
+        (await tracker.getBundle(bundleHash))?.status,
+        BundleStatus.REPLACED
+      );
+    });
+
+    it("cancels the bundle when the first op of a sender became invalid", async () => {
+      await trackBundle([0, 1]);
+      senderNonce = 1;
+      blockNumber += bundlerDefaultConfigs.resubmitAfterBlocks;
+      await tracker.checkPendingBundles();
+
+      assert.equal(sent.length, 1);
+      assert.equal(sent[0]!.to, wallet.address);
+      assert.equal(sent[0]!.data, "0x");
+    });
+
+    it("puts every op of a sender back into the mempool when the bundle is dropped", async () => {
+      await trackBundle([0, 1]);
+      relayerNonce = 1;
+      await tracker.checkPendingBundles();
+
+      assert.equal(
+        (await tracker.getBundle(bundleHash))?.status,
+        BundleStatus.DROPPED
+      );
+      const pending = await mempoolService.dump();
+      assert.deepEqual(
+        pending.map(({ userOp }) => userOp.nonce),
+        ["0x0", "0x1"]
+      );
+    });
+  });
+
+  describe("reorgs", () => {
+    const reorgedHash = "0x" + "f".repeat(64);
+
+    /**
+     * Replaces the block of the bundle with another block at the same height
+     * @param number block number
+     */
+    const reorgBlock = (number: number): void => {
+      blocks[number] = createBlock(number, { hash: reorgedHash });
+    };
+
+    const submittedEntries = async (): Promise<string[]> =>
+      (await mempoolService.getBySender(sender))
+        .filter(({ submittedIn }) => submittedIn === bundleHash)
+        .map(({ userOp }) => BigNumber.from(userOp.nonce).toHexString());
+
+    beforeEach(async () => {
+      await trackBundle([0, 1]);
+      blockNumber = 101;
+      includeBundle(101);
+      await tracker.checkPendingBundles();
+      assert.equal(
+        (await tracker.getBundle(bundleHash))?.status,
+        BundleStatus.MINED
+      );
+    });
+
+    it("follows a bundle mined again in another block", async () => {
+      reorgBlock(101);
+      includeBundle(102);
+      blockNumber = 103;
+      await tracker.checkPendingBundles();
+
+      const bundle = await tracker.getBundle(bundleHash);
+      assert.equal(bundle?.status, BundleStatus.MINED);
+      assert.equal(bundle?.blockNumber, 102);
+      assert.deepEqual(await submittedEntries(), ["0x00", "0x01"]);
+
+      // confirmed once enough blocks are mined on top of its new block
+      blockNumber = 102 + bundlerDefaultConfigs.confirmationDepth;
+      await tracker.checkPendingBundles();
+      assert.deepEqual(await mempoolService.getBySender(sender), []);
+    });
+
+    it("tracks a bundle reorged out of the chain as pending", async () => {
+      reorgBlock(101);
+      delete receipts[bundleHash];
+      relayerNonce = 0;
+      blockNumber = 102;
+      await tracker.checkPendingBundles();
+
+      const bundle = await tracker.getBundle(bundleHash);
+      assert.equal(bundle?.status, BundleStatus.PENDING);
+      assert.equal(bundle?.blockNumber, undefined);
+      assert.deepEqual(
+        (await tracker.getPendingBundles()).map(
+          ({ transactionHash }) => transactionHash
+        ),
+        [bundleHash]
+      );
+      assert.deepEqual(await submittedEntries(), ["0x00", "0x01"]);
+    });
+
+    it("requeues the ops when the nonce of a reorged bundle is used by another transaction", async () => {
+      reorgBlock(101);
+      delete receipts[bundleHash];
+      blockNumber = 102;
+      await tracker.checkPendingBundles();
+
+      assert.equal(
+        (await tracker.getBundle(bundleHash))?.status,
+        BundleStatus.DROPPED
+      );
+      assert.deepEqual(await submittedEntries(), []);
+      assert.equal(await mempoolService.count(), 2);
+    });
+  });
+});
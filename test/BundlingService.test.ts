@@ -0,0 +1,240 @@
+import { strict as assert } from "node:assert";
+import { beforeEach, describe, it } from "node:test";
+import { BigNumber, BigNumberish } from "ethers";
+import { bundlerDefaultConfigs } from "../src/common/config";
+import { LocalDbController } from "../src/db/localDb";
+import { MempoolEntry } from "../src/models/MempoolEntry";
+import { BalanceWatchdogService } from "../src/services/BalanceWatchdogService";
+import { BlockWatcherService } from "../src/services/BlockWatcherService";
+import { BundleTrackerService } from "../src/services/BundleTrackerService";
+import { BundlingService } from "../src/services/BundlingService";
+import { GasFees, IFeeOracle } from "../src/services/FeeOracle";
+import { MempoolService } from "../src/services/MempoolService";
+import { RelayerService } from "../src/services/RelayerService";
+import { ReputationService } from "../src/services/ReputationService";
+import { SubscriptionService } from "../src/services/SubscriptionService";
+import {
+  UserOpValidationResult,
+  UserOpValidationService,
+} from "../src/services/UserOpValidation";
+import {
+  createBlock,
+  createConfig,
+  createUserOp,
+  entryPoint,
+  logger,
+  StubProvider,
+} from "./helpers";
+
+const senders = [
+  "0x" + "1".repeat(40),
+  "0x" + "2".repeat(40),
+  "0x" + "3".repeat(40),
+];
+
+describe("BundlingService", () => {
+  let networkFees: GasFees;
+  let stakedSenders: Set<string>;
+  let mempoolService: MempoolService;
+  let service: BundlingService;
+
+  beforeEach(() => {
+    stakedSenders = new Set();
+    networkFees = {
+      mode: "eip1559",
+      baseFee: BigNumber.from(4),
+      maxFeePerGas: BigNumber.from(10),
+      maxPriorityFeePerGas: BigNumber.from(2),
+    };
+    const provider = new StubProvider({
+      eth_chainId: () => "0x539",
+      eth_getBlockByNumber: () => createBlock(100),
+    });
+    const config = createConfig();
+    const db = new LocalDbController("test");
+    const reputationService = new ReputationService(
+      db,
+      1337,
+      bundlerDefaultConfigs.minInclusionDenominator,
+      bundlerDefaultConfigs.throttlingSlack,
+      bundlerDefaultConfigs.banSlack,
+      BigNumber.from(bundlerDefaultConfigs.minStake),
+      bundlerDefaultConfigs.minUnstakeDelay
+    );
+    mempoolService = new MempoolService(
+      db,
+      1337,
+      "dev",
+      reputationService,
+      config,
+      logger
+    );
+    // every op passes the validation, only the senders in stakedSenders are staked
+    const userOpValidationService = {
+      simulateCompleteValidation: async ({
+        sender,
+      }: {
+        sender: string;
+      }): Promise<Partial<UserOpValidationResult>> => ({
+        returnInfo: { preOpGas: 0, prefund: 0, deadline: 0 },
+        senderInfo: stakedSenders.has(sender)
+          ? {
+              addr: sender,
+              stake: bundlerDefaultConfigs.minStake,
+              unstakeDelaySec: bundlerDefaultConfigs.minUnstakeDelay,
+            }
+          : { addr: sender, stake: 0, unstakeDelaySec: 0 },
+      }),
+    } as unknown as UserOpValidationService;
+    const feeOracle: IFeeOracle = {
+      mode: "eip1559",
+      getFees: async () => networkFees,
+    };
+    const subscriptionService = new SubscriptionService(logger);
+    const relayerService = new RelayerService("dev", provider, config, logger);
+    service = new BundlingService(
+      "dev",
+      provider,
+      mempoolService,
+      userOpValidationService,
+      reputationService,
+      subscriptionService,
+      new BundleTrackerService(
+        db,
+        1337,
+        "dev",
+        provider,
+        mempoolService,
+        userOpValidationService,
+        reputationService,
+        subscriptionService,
+        feeOracle,
+        relayerService,
+        config,
+        logger
+      ),
+      relayerService,
+      new BalanceWatchdogService(
+        "dev",
+        provider,
+        relayerService,
+        feeOracle,
+        config,
+        logger
+      ),
+      new BlockWatcherService("dev", provider, config, logger),
+      feeOracle,
+      config,
+      logger
+    );
+  });
+
+  /**
+   * Adds an op to the mempool
+   * @param sender
+   * @param maxFeePerGas
+   * @param maxPriorityFeePerGas
+   * @param nonce
+   */
+  const addUserOp = async (
+    sender: string,
+    maxFeePerGas: BigNumberish,
+    maxPriorityFeePerGas: BigNumberish,
+    nonce = 0
+  ): Promise<void> => {
+    await mempoolService.addUserOp(
+      createUserOp(sender, nonce, { maxFeePerGas, maxPriorityFeePerGas }),
+      entryPoint,
+      0,
+      { addr: sender, stake: 0, unstakeDelaySec: 0 }
+    );
+  };
+
+  describe("fees", () => {
+    it("leaves the ops which can't cover the oracle fees in the mempool", async () => {
+      await addUserOp(senders[0]!, 10, 2);
+      // below the max fee of the bundle
+      await addUserOp(senders[1]!, 9, 5);
+      // below the priority fee of the bundle
+      await addUserOp(senders[2]!, 20, 1);
+
+      const bundle = await service.createBundle();
+      assert.deepEqual(
+        bundle.map(({ userOp }) => userOp.sender),
+        [senders[0]]
+      );
+      assert.equal(await mempoolService.count(), 3);
+    });
+
+    it("compares legacy gas prices at the base fee", async () => {
+      networkFees = {
+        mode: "legacy",
+        baseFee: BigNumber.from(4),
+        gasPrice: BigNumber.from(6),
+      };
+      // pays min(10, 4 + 2)
+      await addUserOp(senders[0]!, 10, 2);
+      // pays min(10, 4 + 1)
+      await addUserOp(senders[1]!, 10, 1);
+
+      const bundle = await service.createBundle();
+      assert.deepEqual(
+        bundle.map(({ userOp }) => userOp.sender),
+        [senders[0]]
+      );
+    });
+  });
+
+  describe("ordering", () => {
+    /**
+     * Senders and nonces of the bundle ops
+     * @param bundle
+     */
+    const describeBundle = (bundle: MempoolEntry[]): string[] =>
+      bundle.map(({ userOp }) => `${userOp.sender}:${userOp.nonce}`);
+
+    it("orders the ops by decreasing effective gas price at the oracle base fee", async () => {
+      // pays min(30, 4 + 2), the highest max fee
+      await addUserOp(senders[0]!, 30, 2);
+      // pays min(10, 4 + 9), the highest priority fee
+      await addUserOp(senders[1]!, 10, 9);
+      // pays min(20, 4 + 7)
+      await addUserOp(senders[2]!, 20, 7);
+
+      const bundle = await service.createBundle();
+      assert.deepEqual(
+        bundle.map(({ userOp }) => userOp.sender),
+        [senders[2], senders[1], senders[0]]
+      );
+    });
+
+    it("bundles the ops of a staked sender in nonce order", async () => {
+      stakedSenders.add(senders[0]!);
+      // pays 6
+      await addUserOp(senders[0]!, 10, 2, 0);
+      // pays 14, but can't run before nonce 0
+      await addUserOp(senders[0]!, 30, 10, 1);
+      // pays 7
+      await addUserOp(senders[1]!, 20, 3);
+
+      const bundle = await service.createBundle();
+      assert.deepEqual(describeBundle(bundle), [
+        `${senders[0]}:0`,
+        `${senders[1]}:0`,
+        `${senders[0]}:1`,
+      ]);
+    });
+
+    it("bundles a single op of an unstaked sender", async () => {
+      await addUserOp(senders[0]!, 10, 2, 0);
+      await addUserOp(senders[0]!, 10, 2, 1);
+      await addUserOp(senders[1]!, 10, 2);
+
+      const bundle = await service.createBundle();
+      assert.deepEqual(describeBundle(bundle), [
+        `${senders[0]}:0`,
+        `${senders[1]}:0`,
+      ]);
+    });
+  });
+});
@@ -0,0 +1,223 @@
+import { strict as assert } from "node:assert";
+import { beforeEach, describe, it } from "node:test";
+import { BigNumber, utils } from "ethers";
+import { NetworkConfig, bundlerDefaultConfigs } from "../src/common/config";
+import { LocalDbController } from "../src/db/localDb";
+import { MempoolService } from "../src/services/MempoolService";
+import { ReputationService } from "../src/services/ReputationService";
+import { UserOperationStruct } from "../src/types/executor/contracts/EntryPoint";
+import { getUserOpHash } from "../src/utils";
+import { createConfig, createUserOp, entryPoint, logger } from "./helpers";
+
+const sender = utils.getAddress("0x" + "ab".repeat(20));
+
+describe("MempoolService", () => {
+  let db: LocalDbController;
+  let service: MempoolService;
+
+  /**
+   * Mempool reading the shared db, a new instance loads the stored entries again
+   * @param overrides
+   */
+  const createService = (
+    overrides: Partial<NetworkConfig> = {}
+  ): MempoolService => {
+    const reputationService = new ReputationService(
+      db,
+      1337,
+      bundlerDefaultConfigs.minInclusionDenominator,
+      bundlerDefaultConfigs.throttlingSlack,
+      bundlerDefaultConfigs.banSlack,
+      BigNumber.from(bundlerDefaultConfigs.minStake),
+      bundlerDefaultConfigs.minUnstakeDelay
+    );
+    return new MempoolService(
+      db,
+      1337,
+      "dev",
+      reputationService,
+      createConfig(overrides),
+      logger
+    );
+  };
+
+  const addUserOp = async (
+    userOp: UserOperationStruct,
+    validUntil?: number
+  ): Promise<void> => {
+    await service.addUserOp(
+      userOp,
+      entryPoint,
+      0,
+      { addr: userOp.sender, stake: 0, unstakeDelaySec: 0 },
+      undefined,
+      undefined,
+      validUntil
+    );
+  };
+
+  const hashOf = (userOp: UserOperationStruct): string =>
+    getUserOpHash(userOp, entryPoint, 1337);
+
+  beforeEach(() => {
+    db = new LocalDbController("test");
+    service = createService();
+  });
+
+  describe("keys", () => {
+    it("migrates the entries stored under the legacy keys", async () => {
+      const userOp = createUserOp(sender, 1);
+      const legacyKey = `1337:${sender}:1`;
+      await db.put("1337:USEROPKEYS", [legacyKey]);
+      await db.put(legacyKey, {
+        chainId: 1337,
+        userOp,
+        entryPoint,
+        prefund: "0x0",
+        lastUpdatedTime: Date.now(),
+      });
+
+      const entries = await service.dump();
+      assert.equal(entries.length, 1);
+      assert.equal((await service.findByHash(hashOf(userOp)))?.userOp.nonce, 1);
+      await assert.rejects(db.get(legacyKey));
+      await assert.rejects(db.get("1337:USEROPKEYS"));
+      assert.deepEqual(await db.get("1337:MEMPOOL:SENDERS"), [
+        sender.toLowerCase(),
+      ]);
+
+      // the migrated entries are loaded from the current keys
+      service = createService();
+      assert.equal((await service.getBySender(sender)).length, 1);
+    });
+
+    it("replaces an op sent with a differently cased sender", async () => {
+      const first = createUserOp(sender, 0);
+      const replacement = createUserOp(sender.toLowerCase(), 0, {
+        maxFeePerGas: 20,
+        maxPriorityFeePerGas: 20,
+      });
+      await addUserOp(first);
+      await assert.rejects(
+        addUserOp(createUserOp(sender.toLowerCase(), 0, { signature: "0x01" })),
+        /fee too low/
+      );
+      await addUserOp(replacement);
+
+      const entries = await service.dump();
+      assert.equal(entries.length, 1);
+      assert.equal(entries[0]!.userOp.maxFeePerGas, "0x14");
+    });
+
+    it("keeps the hash and sender indexes in sync with the entries", async () => {
+      const first = createUserOp(sender, 0);
+      const replacement = createUserOp(sender.toLowerCase(), 0, {
+        maxFeePerGas: 20,
+        maxPriorityFeePerGas: 20,
+      });
+      await addUserOp(first);
+      await addUserOp(replacement);
+
+      assert.equal(await service.findByHash(hashOf(first)), null);
+      assert.ok(await service.findByHash(hashOf(replacement)));
+      assert.equal((await service.getBySender(sender)).length, 1);
+      assert.equal((await service.getBySender(sender.toLowerCase())).length, 1);
+
+      await service.removeUserOp(first);
+      assert.equal(await service.findByHash(hashOf(replacement)), null);
+      assert.deepEqual(await service.getBySender(sender), []);
+
+      service = createService();
+      assert.equal(await service.count(), 0);
+      assert.deepEqual(await db.get("1337:MEMPOOL:SENDERS"), []);
+    });
+  });
+
+  describe("eviction", () => {
+    const senders = [1, 2, 3, 4].map((i) => "0x" + `${i}`.repeat(40));
+
+    /**
+     * Op paying min(maxFeePerGas, baseFee + maxPriorityFeePerGas)
+     */
+    const createPricedUserOp = (
+      sender: string,
+      nonce: number,
+      maxFeePerGas: number,
+      maxPriorityFeePerGas: number
+    ): UserOperationStruct =>
+      createUserOp(sender, nonce, { maxFeePerGas, maxPriorityFeePerGas });
+
+    const evictedNonces = (): string[] =>
+      service
+        .getEvictions()
+        .map(({ sender, nonce, reason }) => `${sender}:${nonce}:${reason}`);
+
+    it("evicts the op with the lowest effective gas price when full", async () => {
+      service = createService({ maxMempoolSize: 2 });
+      // bundled at a base fee of 10
+      await service.getSortedOps(10);
+      // pays 11, with the lowest priority fee
+      await addUserOp(createPricedUserOp(senders[0]!, 0, 100, 1));
+      // pays 10
+      await addUserOp(createPricedUserOp(senders[1]!, 0, 10, 5));
+      // pays 10, not more than the lowest
+      await assert.rejects(
+        addUserOp(createPricedUserOp(senders[2]!, 0, 10, 3)),
+        /Mempool is full/
+      );
+      // pays 12
+      await addUserOp(createPricedUserOp(senders[2]!, 0, 12, 3));
+
+      assert.deepEqual(evictedNonces(), [`${senders[1]}:0x0:capacity`]);
+      assert.equal(await service.count(), 2);
+    });
+
+    it("evicts the highest nonce of the lowest paying sender", async () => {
+      service = createService({ maxMempoolSize: 3 });
+      await addUserOp(createPricedUserOp(senders[0]!, 0, 10, 10));
+      await addUserOp(createPricedUserOp(senders[0]!, 1, 11, 11));
+      await addUserOp(createPricedUserOp(senders[1]!, 0, 20, 20));
+      await addUserOp(createPricedUserOp(senders[2]!, 0, 15, 15));
+
+      assert.deepEqual(evictedNonces(), [`${senders[0]}:0x1:capacity`]);
+      assert.equal((await service.getBySender(senders[0]!)).length, 1);
+    });
+
+    it("doesn't count the ops of sent bundles towards the capacity", async () => {
+      service = createService({ maxMempoolSize: 1 });
+      await addUserOp(createPricedUserOp(senders[0]!, 0, 10, 10));
+      await service.markSubmitted(await service.getSortedOps(), "0x01");
+      await addUserOp(createPricedUserOp(senders[1]!, 0, 10, 10));
+
+      assert.deepEqual(evictedNonces(), []);
+    });
+
+    it("evicts the ops not updated for mempoolTtl ms", async () => {
+      service = createService({ mempoolTtl: 10 });
+      await addUserOp(createPricedUserOp(senders[0]!, 0, 10, 10));
+      await addUserOp(createPricedUserOp(senders[1]!, 0, 10, 10));
+      await service.markSubmitted(
+        await service.getBySender(senders[1]!),
+        "0x01"
+      );
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      await service.sweep();
+
+      // ops of sent bundles wait for their bundle
+      assert.deepEqual(evictedNonces(), [`${senders[0]}:0x0:ttl`]);
+    });
+
+    it("evicts the ops past their validUntil", async () => {
+      const timestamp = Math.floor(Date.now() / 1000);
+      await addUserOp(createPricedUserOp(senders[0]!, 0, 10, 10), timestamp);
+      await addUserOp(
+        createPricedUserOp(senders[1]!, 0, 10, 10),
+        timestamp + 3600
+      );
+      await service.sweep();
+
+      assert.deepEqual(evictedNonces(), [`${senders[0]}:0x0:validUntil`]);
+      assert.equal(await service.count(), 1);
+    });
+  });
+});
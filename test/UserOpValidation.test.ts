@@ -0,0 +1,185 @@
+import { strict as assert } from "node:assert";
+import { beforeEach, describe, it } from "node:test";
+import { BigNumberish, utils } from "ethers";
+import { bundlerDefaultConfigs } from "../src/common/config";
+import { LocalDbController } from "../src/db/localDb";
+import { TracerResult } from "../src/models/ExecutorInterface";
+import { BlockWatcherService } from "../src/services/BlockWatcherService";
+import { ReputationService } from "../src/services/ReputationService";
+import {
+  OpcodeRules,
+  StorageRules,
+  UserOpValidationService,
+} from "../src/services/UserOpValidation";
+import { ValidationCacheService } from "../src/services/ValidationCacheService";
+import { EntryPoint__factory } from "../src/types/executor/contracts";
+import {
+  createConfig,
+  createUserOp,
+  entryPoint,
+  logger,
+  StubProvider,
+} from "./helpers";
+
+const sender = "0x" + "1".repeat(40);
+const paymaster = "0x" + "2".repeat(40);
+const factory = "0x" + "3".repeat(40);
+
+const MIN_STAKE = utils.parseEther("1");
+const MIN_UNSTAKE_DELAY = 86400;
+
+interface Stake {
+  stake: BigNumberish;
+  unstakeDelaySec: BigNumberish;
+}
+const unstaked: Stake = {
+  stake: utils.parseEther("0.5"),
+  unstakeDelaySec: MIN_UNSTAKE_DELAY,
+};
+const staked: Stake = { stake: MIN_STAKE, unstakeDelaySec: MIN_UNSTAKE_DELAY };
+
+/**
+ * Trace of simulateValidation, reverting with the stakes reported by the entry point
+ * @param stakes
+ * @param trace accesses and opcodes of the validation
+ */
+function simulationTrace(
+  stakes: { factory?: Stake; paymaster?: Stake },
+  trace: Partial<TracerResult>
+): TracerResult {
+  const none: Stake = { stake: 0, unstakeDelaySec: 0 };
+  const data = EntryPoint__factory.createInterface().encodeErrorResult(
+    "ValidationResult",
+    [
+      [100000, 0, false, 0, 0, "0x"],
+      [none.stake, none.unstakeDelaySec],
+      [stakes.factory?.stake ?? 0, stakes.factory?.unstakeDelaySec ?? 0],
+      [stakes.paymaster?.stake ?? 0, stakes.paymaster?.unstakeDelaySec ?? 0],
+    ]
+  );
+  return {
+    trace: {},
+    storageAccesses: [],
+    opcodes: [],
+    ...trace,
+    calls: [{ type: "REVERT", data }],
+  };
+}
+
+describe("UserOpValidationService", () => {
+  let traceCall: TracerResult;
+  let service: UserOpValidationService;
+
+  beforeEach(() => {
+    const provider = new StubProvider({
+      debug_traceCall: ([, , { tracer }]) =>
+        tracer === "prestateTracer" ? {} : traceCall,
+    });
+    const config = createConfig({
+      minStake: MIN_STAKE,
+      minUnstakeDelay: MIN_UNSTAKE_DELAY,
+      validationCacheTtl: 0,
+    });
+    const reputationService = new ReputationService(
+      new LocalDbController("test"),
+      1337,
+      bundlerDefaultConfigs.minInclusionDenominator,
+      bundlerDefaultConfigs.throttlingSlack,
+      bundlerDefaultConfigs.banSlack,
+      MIN_STAKE,
+      MIN_UNSTAKE_DELAY
+    );
+    const validationCacheService = new ValidationCacheService(
+      "dev",
+      provider,
+      new BlockWatcherService("dev", provider, config, logger),
+      config,
+      logger
+    );
+    service = new UserOpValidationService(
+      provider,
+      reputationService,
+      validationCacheService,
+      "dev",
+      config
+    );
+  });
+
+  const validate = (
+    userOp = createUserOp(sender, 0, { paymasterAndData: paymaster })
+  ) => service.simulateCompleteValidation(userOp, entryPoint);
+
+  describe("storage rules", () => {
+    // the paymaster reads its own storage during its validation
+    const ownStorage = {
+      storageAccesses: [
+        { phase: 2, address: paymaster, slot: "1", write: false },
+      ],
+    };
+
+    it("rejects an unstaked paymaster accessing its own storage", async () => {
+      traceCall = simulationTrace({ paymaster: unstaked }, ownStorage);
+      await assert.rejects(
+        validate(),
+        (err: any) => err.data.rule === StorageRules.ENTITY_STORAGE
+      );
+    });
+
+    it("accepts a staked paymaster accessing its own storage", async () => {
+      traceCall = simulationTrace({ paymaster: staked }, ownStorage);
+      const result = await validate();
+      assert.equal(result.paymasterInfo?.addr, paymaster);
+    });
+
+    it("rejects a staked paymaster accessing the factory storage", async () => {
+      traceCall = simulationTrace(
+        { factory: staked, paymaster: staked },
+        {
+          storageAccesses: [
+            { phase: 2, address: factory, slot: "1", write: false },
+          ],
+        }
+      );
+      await assert.rejects(
+        validate(
+          createUserOp(sender, 0, {
+            initCode: factory,
+            paymasterAndData: paymaster,
+          })
+        ),
+        (err: any) => err.data.rule === StorageRules.ENTITY_STORAGE
+      );
+    });
+  });
+
+  describe("opcode rules", () => {
+    // the paymaster reads its balance during its validation
+    const balance = {
+      opcodes: [{ phase: 2, address: paymaster, opcode: "BALANCE", count: 1 }],
+    };
+
+    it("rejects an unstaked paymaster using BALANCE", async () => {
+      traceCall = simulationTrace({ paymaster: unstaked }, balance);
+      await assert.rejects(
+        validate(),
+        (err: any) => err.data.rule === OpcodeRules.BALANCE
+      );
+    });
+
+    it("accepts a staked paymaster using BALANCE", async () => {
+      traceCall = simulationTrace({ paymaster: staked }, balance);
+      await validate();
+    });
+
+    it("requires the min unstake delay", async () => {
+      traceCall = simulationTrace(
+        { paymaster: { ...staked, unstakeDelaySec: 60 } },
+        balance
+      );
+      await assert.rejects(
+        validate(),
+        (err: any) => err.data.rule === OpcodeRules.BALANCE
+      );
+    });
+  });
+});
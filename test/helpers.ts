@@ -0,0 +1,107 @@
+import { BigNumberish, providers, utils } from "ethers";
+import {
+  bundlerDefaultConfigs,
+  Config,
+  NetworkConfig,
+} from "../src/common/config";
+import { Logger } from "../src/models/ExecutorInterface";
+import { UserOperationStruct } from "../src/types/executor/contracts/EntryPoint";
+
+export const entryPoint = "0x5ff137d4b0fdcd49dca30c7cf57e578a026d2789";
+
+const noop = (): void => {};
+
+export const logger: Logger = {
+  fatal: noop,
+  error: noop,
+  warn: noop,
+  info: noop,
+  debug: noop,
+  trace: noop,
+  silent: noop,
+};
+
+/**
+ * Config of the "dev" network with the default bundler settings
+ * @param overrides
+ */
+export function createConfig(overrides: Partial<NetworkConfig> = {}): Config {
+  return new Config({
+    networks: {
+      dev: {
+        ...bundlerDefaultConfigs,
+        entryPoints: [entryPoint],
+        relayer: "",
+        beneficiary: "",
+        rpcEndpoint: "",
+        ...overrides,
+      },
+    },
+  });
+}
+
+export function createUserOp(
+  sender: string,
+  nonce: BigNumberish = 0,
+  overrides: Partial<UserOperationStruct> = {}
+): UserOperationStruct {
+  return {
+    sender,
+    nonce,
+    initCode: "0x",
+    callData: "0x",
+    callGasLimit: 1,
+    verificationGasLimit: 1,
+    preVerificationGas: 1,
+    maxFeePerGas: 10,
+    maxPriorityFeePerGas: 10,
+    paymasterAndData: "0x",
+    signature: "0x",
+    ...overrides,
+  };
+}
+
+/**
+ * Provider answering the rpc methods from handlers, and failing on the others
+ */
+export class StubProvider extends providers.JsonRpcProvider {
+  constructor(
+    public handlers: { [method: string]: (params: any[]) => any } = {}
+  ) {
+    super(undefined, { name: "dev", chainId: 1337 });
+  }
+
+  async send(method: string, params: any[]): Promise<any> {
+    const handler = this.handlers[method];
+    if (!handler) {
+      throw new Error(`Unexpected rpc call ${method}`);
+    }
+    return await handler(params);
+  }
+}
+
+/**
+ * Block as returned by eth_getBlockByNumber, without transaction details
+ * @param number
+ * @param overrides
+ */
+export function createBlock(
+  number: number,
+  overrides: { [field: string]: unknown } = {}
+): { [field: string]: unknown } {
+  return {
+    number: utils.hexValue(number),
+    hash: utils.hexZeroPad(utils.hexValue(number), 32),
+    parentHash: utils.hexZeroPad(utils.hexValue(Math.max(number - 1, 0)), 32),
+    timestamp: utils.hexValue(number * 12),
+    nonce: "0x0000000000000000",
+    difficulty: "0x0",
+    gasLimit: utils.hexValue(30e6),
+    gasUsed: "0x0",
+    baseFeePerGas: "0x1",
+    miner: "0x" + "0".repeat(40),
+    extraData: "0x",
+    transactions: [],
+    ...overrides,
+  };
+}